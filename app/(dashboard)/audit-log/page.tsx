@@ -0,0 +1,215 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { format } from "date-fns";
+import { toast } from "react-hot-toast";
+import { Card } from "@/components/ui/Card";
+import { Select } from "@/components/ui/Select";
+import { authApi, employeeApi, worklogApi } from "@/lib/api";
+import { Employee, WorklogAuditAction, WorklogRevision } from "@/lib/types";
+import { extractErrorMessage } from "@/lib/error-handler";
+import { canViewDepartmentData } from "@/lib/auth";
+import { getDateRangeForPeriod } from "@/lib/date-utils";
+import { formatDisplayDate } from "@/lib/date-settings";
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_ACTION_OPTIONS,
+  getAuditActionColor,
+} from "@/lib/worklog-audit";
+import { PeriodPicker, PeriodSelection } from "../components/PeriodPicker";
+import { RevisionChanges } from "../components/RevisionChanges";
+
+export default function AuditLogPage() {
+  const router = useRouter();
+  const [selection, setSelection] = useState<PeriodSelection>({
+    period: "week",
+    ...getDateRangeForPeriod("week"),
+  });
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [selectedEmployee, setSelectedEmployee] = useState("");
+  const [selectedAction, setSelectedAction] = useState("");
+  const [revisions, setRevisions] = useState<WorklogRevision[]>([]);
+  const [isAllowed, setIsAllowed] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    loadInitialData();
+  }, []);
+
+  useEffect(() => {
+    if (isAllowed) {
+      loadAuditLog();
+    }
+  }, [selection, selectedEmployee, selectedAction, isAllowed]);
+
+  const loadInitialData = async () => {
+    try {
+      const user = await authApi.getCurrentUser();
+      if (!canViewDepartmentData(user)) {
+        toast.error("Only directors can view the audit log");
+        router.push("/dashboard");
+        return;
+      }
+      setEmployees(await employeeApi.getDepartmentEmployees());
+      setIsAllowed(true);
+    } catch (error) {
+      console.error("Failed to load data:", error);
+      const errorMessage = extractErrorMessage(error);
+      toast.error(errorMessage);
+      setIsLoading(false);
+    }
+  };
+
+  const loadAuditLog = async () => {
+    setIsLoading(true);
+    try {
+      const data = await worklogApi.getDepartmentAuditLog({
+        startDate: selection.startDate,
+        endDate: selection.endDate,
+        employeeId: selectedEmployee ? Number(selectedEmployee) : undefined,
+        action: (selectedAction as WorklogAuditAction) || undefined,
+      });
+      setRevisions(
+        data.slice().sort((a, b) => b.changedAt.localeCompare(a.changedAt))
+      );
+    } catch (error) {
+      console.error("Failed to load audit log:", error);
+      const errorMessage = extractErrorMessage(error);
+      toast.error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const employeeOptions = employees.map((employee) => ({
+    value: employee.id,
+    label: employee.fullName,
+  }));
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-8 max-w-7xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+        <p className="text-gray-600">
+          Every worklog created, changed or deleted in your department
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="mb-6 flex flex-wrap gap-4">
+        <PeriodPicker {...selection} onChange={setSelection} />
+
+        <div className="flex-1 max-w-xs">
+          <Select
+            options={[
+              { value: "", label: "All Employees" },
+              ...employeeOptions,
+            ]}
+            value={selectedEmployee}
+            onChange={(e) => setSelectedEmployee(e.target.value)}
+          />
+        </div>
+
+        <div className="flex-1 max-w-xs">
+          <Select
+            options={[
+              { value: "", label: "All Actions" },
+              ...AUDIT_ACTION_OPTIONS,
+            ]}
+            value={selectedAction}
+            onChange={(e) => setSelectedAction(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <Card>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  When
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Employee
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Action
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Worklog Date
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Changed By
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Changes
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-4">
+                    <div className="h-8 bg-gray-100 rounded animate-pulse"></div>
+                  </td>
+                </tr>
+              ) : revisions.length === 0 ? (
+                <tr>
+                  <td
+                    colSpan={6}
+                    className="px-6 py-4 text-center text-sm text-gray-500"
+                  >
+                    No changes found for the selected filters
+                  </td>
+                </tr>
+              ) : (
+                revisions.map((revision) => (
+                  <tr key={revision.id} className="hover:bg-gray-50 align-top">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatDisplayDate(new Date(revision.changedAt))}{" "}
+                      {format(new Date(revision.changedAt), "HH:mm")}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <Link
+                        href={`/employees/${revision.employeeId}`}
+                        className="text-gray-900 hover:text-blue-600"
+                      >
+                        {revision.employeeName}
+                      </Link>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <span
+                        className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${getAuditActionColor(
+                          revision.action
+                        )}`}
+                      >
+                        {AUDIT_ACTION_LABELS[revision.action]}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatDisplayDate(revision.workDate)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {revision.actorName}
+                      {revision.actorId !== revision.employeeId && (
+                        <p className="text-xs text-gray-500">
+                          on behalf of {revision.employeeName}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-6 py-4">
+                      <RevisionChanges revision={revision} />
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+    </div>
+  );
+}
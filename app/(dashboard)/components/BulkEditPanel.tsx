@@ -0,0 +1,207 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { toast } from "react-hot-toast";
+import { AlertCircle, Edit, X } from "lucide-react";
+import { Card, CardHeader, CardTitle } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Select } from "@/components/ui/Select";
+import { worklogTypeApi } from "@/lib/api";
+import { PeriodLock, Worklog, WorklogType } from "@/lib/types";
+import {
+  BulkEditChanges,
+  executeBulkEdit,
+  hasBulkEditChanges,
+} from "@/lib/bulk-edit";
+import { formatDisplayDate, formatLocalized } from "@/lib/date-settings";
+import { MAX_HOURS_PER_DAY, formatHours } from "@/lib/hours";
+import { isWorklogEditable } from "@/lib/timesheet-status";
+
+interface BulkEditPanelProps {
+  worklogs: Worklog[];
+  // Closed periods no worklog may be moved into
+  periodLocks: PeriodLock[];
+  onClose: () => void;
+  // Called with the ids that could not be updated
+  onUpdated: (failedIds: number[]) => void;
+}
+
+export function BulkEditPanel({
+  worklogs,
+  periodLocks,
+  onClose,
+  onUpdated,
+}: BulkEditPanelProps) {
+  const [worklogTypes, setWorklogTypes] = useState<WorklogType[]>([]);
+  const [worklogTypeId, setWorklogTypeId] = useState("");
+  const [changeProject, setChangeProject] = useState(false);
+  const [projectName, setProjectName] = useState("");
+  const [dayShift, setDayShift] = useState("0");
+  const [progress, setProgress] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
+  const [errors, setErrors] = useState<Record<number, string>>({});
+
+  const editableWorklogs = worklogs.filter(isWorklogEditable);
+  const skippedCount = worklogs.length - editableWorklogs.length;
+  const isUpdating = progress !== null;
+
+  const changes: BulkEditChanges = {
+    worklogTypeId: worklogTypeId ? Number(worklogTypeId) : undefined,
+    projectName: changeProject ? projectName.trim() : undefined,
+    dayShift: Number(dayShift) || undefined,
+  };
+
+  useEffect(() => {
+    loadWorklogTypes();
+  }, []);
+
+  const loadWorklogTypes = async () => {
+    try {
+      const types = await worklogTypeApi.getActiveTypes();
+      setWorklogTypes(types);
+    } catch (error) {
+      console.error("Failed to load worklog types:", error);
+      toast.error("Failed to load work types");
+    }
+  };
+
+  const handleApply = async () => {
+    setErrors({});
+    setProgress({ done: 0, total: editableWorklogs.length });
+    try {
+      const { errors: updateErrors, overCapDates } = await executeBulkEdit(
+        editableWorklogs,
+        changes,
+        periodLocks,
+        (done, total) => setProgress({ done, total })
+      );
+      const failedIds = Object.keys(updateErrors).map(Number);
+      const updatedCount = editableWorklogs.length - failedIds.length;
+
+      onUpdated(failedIds);
+
+      if (overCapDates.length > 0) {
+        const dates = overCapDates.map((date) => formatDisplayDate(date));
+        const maxHours = formatHours(MAX_HOURS_PER_DAY);
+        toast(
+          `More than ${maxHours} hours are now logged on ${dates.join(", ")}`,
+          { duration: 6000 }
+        );
+      }
+
+      if (failedIds.length === 0) {
+        toast.success(`Updated ${updatedCount} worklog(s)`);
+        onClose();
+      } else {
+        toast.error(
+          `${failedIds.length} of ${editableWorklogs.length} worklog(s) could not be updated`
+        );
+        setErrors(updateErrors);
+      }
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const worklogTypeOptions = worklogTypes.map((type) => ({
+    value: type.id,
+    label: type.name,
+  }));
+
+  const failedWorklogs = worklogs.filter((w) => errors[w.id]);
+
+  return (
+    <Card className="mb-6 border border-blue-200">
+      <CardHeader className="flex justify-between items-start">
+        <div>
+          <CardTitle>Edit {editableWorklogs.length} Worklog(s)</CardTitle>
+          <p className="text-sm text-gray-600">
+            Only the fields you change are applied to every selected entry.
+            {skippedCount > 0 &&
+              ` ${skippedCount} selected worklog(s) can no longer be edited and will be skipped.`}
+          </p>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          <X className="w-4 h-4" />
+        </Button>
+      </CardHeader>
+
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Select
+            label="Work Type (empty keeps current)"
+            options={worklogTypeOptions}
+            value={worklogTypeId}
+            onChange={(e) => setWorklogTypeId(e.target.value)}
+            disabled={isUpdating}
+          />
+
+          <div className="space-y-1">
+            <label className="flex items-center space-x-2 text-sm font-medium text-gray-900">
+              <input
+                type="checkbox"
+                checked={changeProject}
+                onChange={(e) => setChangeProject(e.target.checked)}
+                disabled={isUpdating}
+                className="h-4 w-4 rounded border-gray-300"
+              />
+              <span>Change project name</span>
+            </label>
+            <Input
+              value={projectName}
+              onChange={(e) => setProjectName(e.target.value)}
+              disabled={!changeProject || isUpdating}
+              placeholder="Leave empty to remove the project"
+            />
+          </div>
+
+          <Input
+            label="Shift dates by (days)"
+            type="number"
+            step={1}
+            value={dayShift}
+            onChange={(e) => setDayShift(e.target.value)}
+            disabled={isUpdating}
+          />
+        </div>
+
+        {failedWorklogs.length > 0 && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 space-y-1">
+            {failedWorklogs.map((worklog) => (
+              <p
+                key={worklog.id}
+                className="flex items-start text-sm text-red-700"
+              >
+                <AlertCircle className="w-4 h-4 mr-1 mt-0.5 flex-shrink-0" />
+                {formatLocalized(worklog.workDate, "MMM d")} –{" "}
+                {worklog.worklogTypeName}: {errors[worklog.id]}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center gap-4">
+          <Button
+            onClick={handleApply}
+            disabled={
+              isUpdating ||
+              editableWorklogs.length === 0 ||
+              !hasBulkEditChanges(changes)
+            }
+          >
+            <Edit className="w-4 h-4 mr-2" />
+            {progress
+              ? `Updating ${progress.done} of ${progress.total}...`
+              : "Apply Changes"}
+          </Button>
+          <Button variant="secondary" onClick={onClose} disabled={isUpdating}>
+            Cancel
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+}
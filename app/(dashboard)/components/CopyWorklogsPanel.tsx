@@ -0,0 +1,259 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { toast } from "react-hot-toast";
+import { AlertCircle, Copy, X } from "lucide-react";
+import { Card, CardHeader, CardTitle } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { Select } from "@/components/ui/Select";
+import { periodLockApi, worklogApi } from "@/lib/api";
+import { PeriodLock, TimesheetSubmission, Worklog } from "@/lib/types";
+import { extractErrorMessage } from "@/lib/error-handler";
+import { formatHours } from "@/lib/hours";
+import {
+  CopyConflictPolicy,
+  CopyMode,
+  buildCopyPlan,
+  executeCopyPlan,
+  getCopyRanges,
+} from "@/lib/worklog-copy";
+import { formatLocalized } from "@/lib/date-settings";
+import { getMyTimesheetsCovering } from "@/lib/timesheet-status";
+
+interface CopyWorklogsPanelProps {
+  mode: CopyMode;
+  onClose: () => void;
+  onCopied: () => void;
+}
+
+export function CopyWorklogsPanel({
+  mode,
+  onClose,
+  onCopied,
+}: CopyWorklogsPanelProps) {
+  const [sourceWorklogs, setSourceWorklogs] = useState<Worklog[]>([]);
+  const [targetWorklogs, setTargetWorklogs] = useState<Worklog[]>([]);
+  const [periodLocks, setPeriodLocks] = useState<PeriodLock[]>([]);
+  const [submissions, setSubmissions] = useState<TimesheetSubmission[]>([]);
+  const [conflictPolicy, setConflictPolicy] =
+    useState<CopyConflictPolicy>("skip");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCopying, setIsCopying] = useState(false);
+  const [errors, setErrors] = useState<Record<number, string>>({});
+
+  const ranges = getCopyRanges(mode);
+  const plan = buildCopyPlan(
+    mode,
+    ranges,
+    sourceWorklogs,
+    targetWorklogs,
+    conflictPolicy,
+    periodLocks,
+    submissions
+  );
+  const itemsToCreate = plan.filter((item) => !item.skipReason);
+  const sourceLabel =
+    mode === "week" ? "last week" : "the previous working day";
+
+  useEffect(() => {
+    loadWorklogs();
+  }, [mode]);
+
+  const loadWorklogs = async () => {
+    setIsLoading(true);
+    setErrors({});
+    try {
+      const [source, target, locks, targetSubmissions] = await Promise.all([
+        worklogApi.getMyWorklogs(
+          ranges.source.startDate,
+          ranges.source.endDate
+        ),
+        worklogApi.getMyWorklogs(
+          ranges.target.startDate,
+          ranges.target.endDate
+        ),
+        periodLockApi.getPeriodLocks(),
+        getMyTimesheetsCovering(ranges.target.startDate, ranges.target.endDate),
+      ]);
+      setSourceWorklogs(source);
+      setTargetWorklogs(target);
+      setPeriodLocks(locks);
+      setSubmissions(targetSubmissions);
+    } catch (error) {
+      console.error("Failed to load worklogs:", error);
+      const errorMessage = extractErrorMessage(error);
+      toast.error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadTargetWorklogs = async () => {
+    try {
+      setTargetWorklogs(
+        await worklogApi.getMyWorklogs(
+          ranges.target.startDate,
+          ranges.target.endDate
+        )
+      );
+    } catch (error) {
+      console.error("Failed to load worklogs:", error);
+      const errorMessage = extractErrorMessage(error);
+      toast.error(errorMessage);
+    }
+  };
+
+  const handleCopy = async () => {
+    setIsCopying(true);
+    try {
+      const copyErrors = await executeCopyPlan(itemsToCreate);
+      const failedCount = Object.keys(copyErrors).length;
+      const createdCount = itemsToCreate.length - failedCount;
+      // Whatever was created counts as hours already logged in the next plan
+      await loadTargetWorklogs();
+
+      if (createdCount > 0) {
+        onCopied();
+      }
+
+      if (failedCount === 0) {
+        toast.success(`Copied ${createdCount} worklog(s)`);
+        onClose();
+      } else {
+        toast.error(
+          `${failedCount} of ${itemsToCreate.length} worklog(s) could not be copied`
+        );
+        // Drop what was created so that a retry only covers the failures
+        setSourceWorklogs((prev) => prev.filter((w) => copyErrors[w.id]));
+        setErrors(copyErrors);
+      }
+    } finally {
+      setIsCopying(false);
+    }
+  };
+
+  return (
+    <Card className="mb-6 border border-blue-200">
+      <CardHeader className="flex justify-between items-start">
+        <div>
+          <CardTitle>
+            {mode === "week" ? "Copy Last Week" : "Repeat Yesterday"}
+          </CardTitle>
+          <p className="text-sm text-gray-600">
+            Review the entries from {sourceLabel} that will be created.
+          </p>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          <X className="w-4 h-4" />
+        </Button>
+      </CardHeader>
+
+      {isLoading ? (
+        <div className="animate-pulse space-y-3">
+          <div className="h-4 bg-gray-200 rounded w-1/4"></div>
+          <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+        </div>
+      ) : plan.length === 0 ? (
+        <p className="text-gray-500">No worklogs found for {sourceLabel}.</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="max-w-sm">
+            <Select
+              label="When a day already has hours"
+              options={[
+                { value: "skip", label: "Skip that day's entries" },
+                { value: "add", label: "Add alongside existing entries" },
+              ]}
+              value={conflictPolicy}
+              onChange={(e) =>
+                setConflictPolicy(e.target.value as CopyConflictPolicy)
+              }
+            />
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Date
+                  </th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Type
+                  </th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Hours
+                  </th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Project
+                  </th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {plan.map((item) => {
+                  const error = errors[item.source.id];
+                  return (
+                    <tr
+                      key={item.source.id}
+                      className={item.skipReason ? "text-gray-400" : ""}
+                    >
+                      <td className="px-4 py-2 whitespace-nowrap text-sm">
+                        {formatLocalized(item.payload.workDate, "EEE, MMM d")}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm">
+                        {item.source.worklogTypeName}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm">
+                        {item.payload.hoursWorked}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm">
+                        {item.payload.projectName || "-"}
+                      </td>
+                      <td className="px-4 py-2 text-sm">
+                        {error ? (
+                          <span className="flex items-center text-red-600">
+                            <AlertCircle className="w-4 h-4 mr-1" />
+                            {error}
+                          </span>
+                        ) : item.skipReason ? (
+                          <span>Skipped: {item.skipReason}</span>
+                        ) : item.existingHours > 0 ? (
+                          <span className="text-yellow-600">
+                            Adds to {formatHours(item.existingHours)} hours
+                            already logged
+                          </span>
+                        ) : (
+                          <span className="text-green-600">
+                            Will be created
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex gap-4">
+            <Button
+              onClick={handleCopy}
+              disabled={isCopying || itemsToCreate.length === 0}
+            >
+              <Copy className="w-4 h-4 mr-2" />
+              {isCopying
+                ? "Copying..."
+                : `Create ${itemsToCreate.length} Worklog(s)`}
+            </Button>
+            <Button variant="secondary" onClick={onClose}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
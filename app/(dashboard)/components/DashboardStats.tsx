@@ -10,14 +10,20 @@ import {
   Activity,
 } from "lucide-react";
 import { Card } from "@/components/ui/Card";
-import { dashboardApi, authApi } from "@/lib/api";
-import { QuickStats as DashboardStatsType, User } from "@/lib/types";
+import { dashboardApi, authApi, employeeApi } from "@/lib/api";
+import {
+  QuickStats as DashboardStatsType,
+  User,
+  WorkSchedule,
+} from "@/lib/types";
 import { canViewDepartmentData } from "@/lib/auth";
-import { HOURS_PER_WEEK } from "@/lib/date-utils";
+import { getDateRangeForPeriod } from "@/lib/date-utils";
+import { calculateScheduledHours } from "@/lib/work-schedule";
 
 export function DashboardStats() {
   const [stats, setStats] = useState<DashboardStatsType | null>(null);
   const [user, setUser] = useState<User | null>(null);
+  const [workSchedules, setWorkSchedules] = useState<WorkSchedule[]>();
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
@@ -38,6 +44,14 @@ export function DashboardStats() {
     } finally {
       setIsLoading(false);
     }
+
+    try {
+      const me = await employeeApi.getMe();
+      setWorkSchedules(me.workSchedules);
+    } catch (error) {
+      // The week target falls back to the standard schedule
+      console.error("Failed to load work schedule:", error);
+    }
   };
 
   // Determine if this is department or team view
@@ -61,8 +75,15 @@ export function DashboardStats() {
 
   if (!stats) return null;
 
-  // Calculate week progress percentage
-  const weekProgress = Math.min(100, (stats.weekHours / HOURS_PER_WEEK) * 100);
+  // Calculate week progress against this week's scheduled hours, less any holidays
+  const currentWeek = getDateRangeForPeriod("week");
+  const weekTarget = calculateScheduledHours(
+    currentWeek.startDate,
+    currentWeek.endDate,
+    workSchedules
+  );
+  const weekProgress =
+    weekTarget > 0 ? Math.min(100, (stats.weekHours / weekTarget) * 100) : 100;
 
   return (
     <div className="grid grid-cols-2 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
@@ -97,7 +118,7 @@ export function DashboardStats() {
             <p className="text-2xl font-bold text-green-900">
               {stats.weekHours}
               <span className="text-sm font-normal text-green-700 ml-2">
-                / {HOURS_PER_WEEK}
+                / {weekTarget}
               </span>
             </p>
             <div className="mt-2">
@@ -193,7 +214,7 @@ export function DashboardStats() {
                   {weekProgress.toFixed(0)}%
                 </p>
                 <p className="text-xs text-purple-600 mt-1">
-                  Target: {HOURS_PER_WEEK} hours
+                  Target: {weekTarget} hours
                 </p>
               </div>
               <TrendingUp className="h-8 w-8 text-purple-500" />
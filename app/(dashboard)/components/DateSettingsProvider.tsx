@@ -0,0 +1,55 @@
+"use client";
+
+import { createContext, useContext, useEffect, useState } from "react";
+import {
+  DEFAULT_DATE_SETTINGS,
+  DateSettings,
+  applyDateSettings,
+  loadDateSettings,
+  saveDateSettings,
+} from "@/lib/date-settings";
+
+interface DateSettingsContextValue {
+  settings: DateSettings;
+  updateSettings: (settings: DateSettings) => void;
+}
+
+const DateSettingsContext = createContext<DateSettingsContextValue>({
+  settings: DEFAULT_DATE_SETTINGS,
+  updateSettings: saveDateSettings,
+});
+
+export function useDateSettings() {
+  return useContext(DateSettingsContext);
+}
+
+/**
+ * Loads the user's date settings after mount and only then renders its children,
+ * so nothing formats dates with settings the server could not know about
+ */
+export function DateSettingsProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const [settings, setSettings] = useState<DateSettings | null>(null);
+
+  useEffect(() => {
+    const saved = loadDateSettings();
+    applyDateSettings(saved);
+    setSettings(saved);
+  }, []);
+
+  const updateSettings = (next: DateSettings) => {
+    saveDateSettings(next);
+    setSettings(next);
+  };
+
+  if (!settings) return null;
+
+  return (
+    <DateSettingsContext.Provider value={{ settings, updateSettings }}>
+      {children}
+    </DateSettingsContext.Provider>
+  );
+}
@@ -0,0 +1,31 @@
+"use client";
+
+import { Lock } from "lucide-react";
+import { PeriodLock } from "@/lib/types";
+import { formatPeriodLockRange } from "@/lib/period-locks";
+
+interface LockedPeriodsNoteProps {
+  // Locks to list, usually those overlapping the dates on screen
+  locks: PeriodLock[];
+}
+
+export function LockedPeriodsNote({ locks }: LockedPeriodsNoteProps) {
+  if (locks.length === 0) return null;
+
+  return (
+    <p className="mt-2 flex items-start gap-1 text-xs text-gray-600">
+      <Lock className="w-3 h-3 mt-0.5 flex-shrink-0" />
+      <span>
+        Closed periods:{" "}
+        {locks
+          .map(
+            (lock) =>
+              `${formatPeriodLockRange(lock)}${
+                lock.reason ? ` (${lock.reason})` : ""
+              }`
+          )
+          .join(", ")}
+      </span>
+    </p>
+  );
+}
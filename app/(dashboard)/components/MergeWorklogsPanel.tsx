@@ -0,0 +1,143 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import { AlertCircle, Merge } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { Worklog } from "@/lib/types";
+import { formatHours, sumHours } from "@/lib/hours";
+import { executeMerge, validateMerge } from "@/lib/split-merge";
+
+interface MergeWorklogsPanelProps {
+  worklog: Worklog;
+  // Same-day entries of the same type and project
+  candidates: Worklog[];
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export function MergeWorklogsPanel({
+  worklog,
+  candidates,
+  onClose,
+  onSaved,
+}: MergeWorklogsPanelProps) {
+  const [selectedIds, setSelectedIds] = useState<number[]>(
+    candidates.map((c) => c.id)
+  );
+  const [description, setDescription] = useState(
+    [worklog, ...candidates].map((w) => w.description).join("\n")
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const toMerge = [
+    worklog,
+    ...candidates.filter((c) => selectedIds.includes(c.id)),
+  ];
+
+  const toggleSelected = (id: number) => {
+    setSelectedIds((prev) =>
+      prev.includes(id) ? prev.filter((i) => i !== id) : [...prev, id]
+    );
+  };
+
+  const handleSave = async () => {
+    const validationError = validateMerge(toMerge, description);
+    setError(validationError);
+    if (validationError) return;
+
+    setIsSaving(true);
+    try {
+      const result = await executeMerge(toMerge, description);
+      if (!result.error) {
+        toast.success(`Merged ${toMerge.length} worklogs`);
+        onSaved();
+        onClose();
+        return;
+      }
+
+      setError(
+        result.rolledBack
+          ? `${result.error}. Nothing was changed.`
+          : `${result.error}. The merge could not be fully undone; please review this day's entries.`
+      );
+      if (!result.rolledBack) {
+        onSaved();
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200 space-y-4">
+      <p className="text-sm text-gray-600">
+        Merge into this entry. The merged entry keeps the combined hours, so the
+        day total does not change.
+      </p>
+
+      <div className="space-y-2">
+        {candidates.map((candidate) => (
+          <label
+            key={candidate.id}
+            className="flex items-start space-x-2 text-sm text-gray-900"
+          >
+            <input
+              type="checkbox"
+              checked={selectedIds.includes(candidate.id)}
+              onChange={() => toggleSelected(candidate.id)}
+              className="h-4 w-4 mt-0.5 rounded border-gray-300"
+            />
+            <span>
+              <strong>{formatHours(candidate.hoursWorked)} hours</strong> –{" "}
+              {candidate.description}
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Merged Description
+        </label>
+        <textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          rows={3}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+      </div>
+
+      {error && (
+        <p className="flex items-center text-sm text-red-600">
+          <AlertCircle className="w-4 h-4 mr-1 flex-shrink-0" />
+          {error}
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          size="sm"
+          onClick={handleSave}
+          disabled={isSaving || toMerge.length < 2}
+        >
+          <Merge className="w-4 h-4 mr-2" />
+          {isSaving
+            ? "Saving..."
+            : `Merge ${toMerge.length} Entries (${formatHours(
+                sumHours(toMerge)
+              )} hours)`}
+        </Button>
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={onClose}
+          disabled={isSaving}
+        >
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
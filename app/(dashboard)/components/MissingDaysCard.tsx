@@ -0,0 +1,54 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { AlertTriangle, PlayCircle } from "lucide-react";
+import { Card } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import Link from "next/link";
+import { formatLocalized } from "@/lib/date-settings";
+
+interface MissingDaysCardProps {
+  // Working days without any worklog, as yyyy-MM-dd
+  missingDays: string[];
+}
+
+export function MissingDaysCard({ missingDays }: MissingDaysCardProps) {
+  const router = useRouter();
+
+  if (missingDays.length === 0) return null;
+
+  return (
+    <Card className="mb-6 bg-yellow-50 border border-yellow-200">
+      <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+        <div className="flex items-start space-x-3">
+          <AlertTriangle className="h-5 w-5 text-yellow-600 mt-0.5 flex-shrink-0" />
+          <div>
+            <p className="text-sm font-medium text-yellow-900">
+              {missingDays.length} working day(s) without worklogs
+            </p>
+            <div className="flex flex-wrap gap-2 mt-2">
+              {missingDays.map((day) => (
+                <Link
+                  key={day}
+                  href={`/worklogs/new?workDate=${day}`}
+                  className="px-2 py-0.5 text-xs font-medium bg-white text-yellow-800 border border-yellow-300 rounded-full hover:bg-yellow-100"
+                >
+                  {formatLocalized(day, "EEE, MMM d")}
+                </Link>
+              ))}
+            </div>
+          </div>
+        </div>
+        <Button
+          size="sm"
+          onClick={() =>
+            router.push(`/worklogs/catch-up?dates=${missingDays.join(",")}`)
+          }
+        >
+          <PlayCircle className="w-4 h-4 mr-2" />
+          Catch Up
+        </Button>
+      </div>
+    </Card>
+  );
+}
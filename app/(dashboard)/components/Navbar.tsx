@@ -14,8 +14,12 @@ import {
   Building,
   User,
   GitBranch,
+  History,
+  Settings,
 } from "lucide-react";
 import { Button } from "@/components/ui/Button";
+import { SyncIndicator } from "./SyncIndicator";
+import { TimerWidget } from "./TimerWidget";
 import { authApi } from "@/lib/api";
 import { User as UserType } from "@/lib/types";
 import {
@@ -71,15 +75,22 @@ export function Navbar() {
     });
   }
 
-  // Add Department Hierarchy for Directors
+  // Add Department Hierarchy and Audit Log for Directors
   if (user && canViewDepartmentData(user)) {
     navigation.push({
       name: "Org Chart",
       href: "/department-hierarchy",
       icon: GitBranch,
     });
+    navigation.push({
+      name: "Audit Log",
+      href: "/audit-log",
+      icon: History,
+    });
   }
 
+  navigation.push({ name: "Settings", href: "/settings", icon: Settings });
+
   const isActive = (href: string) => pathname === href;
 
   if (isLoading) {
@@ -143,6 +154,8 @@ export function Navbar() {
 
           {/* User Menu */}
           <div className="hidden sm:ml-6 sm:flex sm:items-center space-x-4">
+            {user && <SyncIndicator userId={user.id} />}
+            <TimerWidget />
             {user && (
               <div className="flex items-center space-x-3 text-sm">
                 <div className="text-right">
@@ -234,6 +247,10 @@ export function Navbar() {
                 </div>
               </div>
             )}
+            <div className="px-4 mb-3 flex gap-2">
+              {user && <SyncIndicator userId={user.id} />}
+              <TimerWidget />
+            </div>
             <div className="px-4">
               <Button
                 variant="secondary"
@@ -0,0 +1,174 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { toast } from "react-hot-toast";
+import { CheckCircle, ClipboardCheck, XCircle } from "lucide-react";
+import { Card, CardHeader, CardTitle } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { worklogApi } from "@/lib/api";
+import { TimesheetSubmission } from "@/lib/types";
+import { extractErrorMessage } from "@/lib/error-handler";
+import { formatHours } from "@/lib/hours";
+import { formatPeriodDescription } from "@/lib/date-utils";
+import { formatDisplayDate } from "@/lib/date-settings";
+
+export function PendingTimesheetsCard() {
+  const [submissions, setSubmissions] = useState<TimesheetSubmission[]>([]);
+  // Submission whose reject form is open, with the comment typed so far
+  const [rejectingId, setRejectingId] = useState<number | null>(null);
+  const [rejectComment, setRejectComment] = useState("");
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  useEffect(() => {
+    loadPending();
+  }, []);
+
+  const loadPending = async () => {
+    try {
+      const data = await worklogApi.getPendingTimesheets();
+      setSubmissions(
+        data
+          .slice()
+          .sort((a, b) => a.weekStartDate.localeCompare(b.weekStartDate))
+      );
+    } catch (error) {
+      console.error("Failed to load pending timesheets:", error);
+      const errorMessage = extractErrorMessage(error);
+      toast.error(errorMessage);
+    }
+  };
+
+  const removeSubmission = (id: number) => {
+    setSubmissions((prev) => prev.filter((s) => s.id !== id));
+  };
+
+  const handleApprove = async (submission: TimesheetSubmission) => {
+    setBusyId(submission.id);
+    try {
+      await worklogApi.approveTimesheet(submission.id);
+      removeSubmission(submission.id);
+      toast.success(`Approved ${submission.employeeName}'s timesheet`);
+    } catch (error) {
+      console.error("Failed to approve timesheet:", error);
+      const errorMessage = extractErrorMessage(error);
+      toast.error(errorMessage);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleReject = async (submission: TimesheetSubmission) => {
+    if (!rejectComment.trim()) {
+      toast.error("Please explain what needs to be corrected");
+      return;
+    }
+
+    setBusyId(submission.id);
+    try {
+      await worklogApi.rejectTimesheet(submission.id, rejectComment.trim());
+      removeSubmission(submission.id);
+      setRejectingId(null);
+      setRejectComment("");
+      toast.success(`Returned ${submission.employeeName}'s timesheet`);
+    } catch (error) {
+      console.error("Failed to reject timesheet:", error);
+      const errorMessage = extractErrorMessage(error);
+      toast.error(errorMessage);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (submissions.length === 0) return null;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="flex items-center gap-2">
+        <ClipboardCheck className="h-5 w-5 text-yellow-600" />
+        <CardTitle>
+          Timesheets Awaiting Approval ({submissions.length})
+        </CardTitle>
+      </CardHeader>
+      <div className="divide-y divide-gray-200">
+        {submissions.map((submission) => (
+          <div key={submission.id} className="py-3">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <div>
+                <Link
+                  href={`/employees/${submission.employeeId}?startDate=${submission.weekStartDate}&endDate=${submission.weekEndDate}&period=custom`}
+                  className="text-sm font-medium text-gray-900 hover:text-blue-600"
+                >
+                  {submission.employeeName}
+                </Link>
+                <p className="text-sm text-gray-600">
+                  {formatPeriodDescription(
+                    submission.weekStartDate,
+                    submission.weekEndDate
+                  )}{" "}
+                  • {formatHours(submission.totalHours)} hours
+                  {submission.submittedAt &&
+                    ` • submitted ${formatDisplayDate(
+                      new Date(submission.submittedAt)
+                    )}`}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => handleApprove(submission)}
+                  disabled={busyId === submission.id}
+                >
+                  <CheckCircle className="w-4 h-4 mr-2" />
+                  Approve
+                </Button>
+                <Button
+                  variant="danger"
+                  size="sm"
+                  onClick={() => {
+                    setRejectingId(submission.id);
+                    setRejectComment("");
+                  }}
+                  disabled={busyId === submission.id}
+                >
+                  <XCircle className="w-4 h-4 mr-2" />
+                  Reject
+                </Button>
+              </div>
+            </div>
+
+            {rejectingId === submission.id && (
+              <div className="mt-3 space-y-2">
+                <textarea
+                  value={rejectComment}
+                  onChange={(e) => setRejectComment(e.target.value)}
+                  rows={2}
+                  placeholder="What needs to be corrected?"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  autoFocus
+                />
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => setRejectingId(null)}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    variant="danger"
+                    size="sm"
+                    onClick={() => handleReject(submission)}
+                    disabled={busyId === submission.id}
+                  >
+                    Send Back
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
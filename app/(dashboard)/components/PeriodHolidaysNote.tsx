@@ -0,0 +1,33 @@
+"use client";
+
+import { getHolidaysInRange } from "@/lib/holidays";
+import { formatLocalized } from "@/lib/date-settings";
+
+interface PeriodHolidaysNoteProps {
+  startDate: string;
+  endDate: string;
+}
+
+export function PeriodHolidaysNote({
+  startDate,
+  endDate,
+}: PeriodHolidaysNoteProps) {
+  const holidays = getHolidaysInRange(startDate, endDate);
+
+  if (holidays.length === 0) return null;
+
+  return (
+    <p className="mt-1">
+      Public holidays in this period are not expected as working time:{" "}
+      {holidays
+        .map(
+          (holiday) =>
+            `${holiday.name} (${formatLocalized(holiday.date, "MMM d")}${
+              holiday.halfDay ? ", half day" : ""
+            })`
+        )
+        .join(", ")}
+      .
+    </p>
+  );
+}
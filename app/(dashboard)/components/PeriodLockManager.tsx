@@ -0,0 +1,180 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { toast } from "react-hot-toast";
+import { Lock, Unlock } from "lucide-react";
+import { Card, CardHeader, CardTitle } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { periodLockApi } from "@/lib/api";
+import { PeriodLock } from "@/lib/types";
+import { extractErrorMessage } from "@/lib/error-handler";
+import { getDateRangeForPeriod } from "@/lib/date-utils";
+import { formatDisplayDate } from "@/lib/date-settings";
+import { formatPeriodLockRange, getLocksInRange } from "@/lib/period-locks";
+
+export function PeriodLockManager() {
+  const [locks, setLocks] = useState<PeriodLock[]>([]);
+  // Closing last month is the usual case once payroll is done
+  const [startDate, setStartDate] = useState(
+    getDateRangeForPeriod("lastMonth").startDate
+  );
+  const [endDate, setEndDate] = useState(
+    getDateRangeForPeriod("lastMonth").endDate
+  );
+  const [reason, setReason] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadLocks();
+  }, []);
+
+  const loadLocks = async () => {
+    try {
+      const data = await periodLockApi.getPeriodLocks();
+      // Most recent periods first
+      setLocks(
+        data.slice().sort((a, b) => b.startDate.localeCompare(a.startDate))
+      );
+    } catch (error) {
+      console.error("Failed to load period locks:", error);
+      const errorMessage = extractErrorMessage(error);
+      toast.error(errorMessage);
+    }
+  };
+
+  const handleLock = async () => {
+    if (!startDate || !endDate || endDate < startDate) {
+      toast.error("Please select a valid date range");
+      return;
+    }
+
+    const overlapping = getLocksInRange(startDate, endDate, locks);
+    if (overlapping.length > 0) {
+      toast.error(
+        `Overlaps the closed period ${formatPeriodLockRange(overlapping[0])}`
+      );
+      return;
+    }
+
+    if (
+      !confirm(
+        `Close ${formatDisplayDate(startDate)} - ${formatDisplayDate(
+          endDate
+        )}? Nobody in the department will be able to add, change or delete worklogs in this period.`
+      )
+    )
+      return;
+
+    setIsSaving(true);
+    try {
+      await periodLockApi.createPeriodLock({
+        startDate,
+        endDate,
+        reason: reason.trim(),
+      });
+      toast.success("Period locked");
+      setReason("");
+      loadLocks();
+    } catch (error) {
+      console.error("Failed to lock period:", error);
+      const errorMessage = extractErrorMessage(error);
+      toast.error(errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUnlock = async (lock: PeriodLock) => {
+    if (!confirm(`Reopen ${formatPeriodLockRange(lock)} for changes?`)) return;
+
+    try {
+      await periodLockApi.deletePeriodLock(lock.id);
+      setLocks((prev) => prev.filter((l) => l.id !== lock.id));
+      toast.success("Period reopened");
+    } catch (error) {
+      console.error("Failed to unlock period:", error);
+      const errorMessage = extractErrorMessage(error);
+      toast.error(errorMessage);
+    }
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle>Closed Periods</CardTitle>
+      </CardHeader>
+      <p className="text-sm text-gray-600 mb-4">
+        Lock a date range once payroll and invoicing are done. Worklogs in a
+        closed period can no longer be added, changed or deleted in your
+        department.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end mb-6">
+        <Input
+          label="From"
+          type="date"
+          value={startDate}
+          max={endDate}
+          onChange={(e) => setStartDate(e.target.value)}
+        />
+        <Input
+          label="To"
+          type="date"
+          value={endDate}
+          min={startDate}
+          onChange={(e) => setEndDate(e.target.value)}
+        />
+        <Input
+          label="Reason"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="e.g., Payroll closed"
+        />
+        <Button onClick={handleLock} disabled={isSaving}>
+          <Lock className="w-4 h-4 mr-2" />
+          {isSaving ? "Locking..." : "Lock Period"}
+        </Button>
+      </div>
+
+      {locks.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No periods have been closed yet.
+        </p>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {locks.map((lock) => (
+            <div
+              key={lock.id}
+              className="py-3 flex items-center justify-between gap-4"
+            >
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  {formatPeriodLockRange(lock)}
+                  {lock.reason && (
+                    <span className="font-normal text-gray-600">
+                      {" "}
+                      • {lock.reason}
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500">
+                  Locked by {lock.lockedByName} on{" "}
+                  {formatDisplayDate(new Date(lock.lockedAt))}
+                </p>
+              </div>
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => handleUnlock(lock)}
+              >
+                <Unlock className="w-4 h-4 mr-2" />
+                Unlock
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import {
+  PERIOD_PRESETS,
+  PeriodFilter,
+  getDateRangeForPeriod,
+  getPeriodLabel,
+  matchPeriodPreset,
+  shiftDateRange,
+} from "@/lib/date-utils";
+
+export interface PeriodSelection {
+  period: PeriodFilter;
+  startDate: string;
+  endDate: string;
+}
+
+interface PeriodPickerProps extends PeriodSelection {
+  onChange: (selection: PeriodSelection) => void;
+}
+
+export function PeriodPicker({
+  period,
+  startDate,
+  endDate,
+  onChange,
+}: PeriodPickerProps) {
+  // Rolling presets that came in through the URL but are not in the list
+  const presetOptions =
+    period === "custom" || PERIOD_PRESETS.some((p) => p.value === period)
+      ? PERIOD_PRESETS
+      : [...PERIOD_PRESETS, { value: period, label: getPeriodLabel(period) }];
+
+  const handlePresetChange = (value: string) => {
+    const preset = presetOptions.find((option) => option.value === value);
+    if (!preset) return;
+    onChange({ period: preset.value, ...getDateRangeForPeriod(preset.value) });
+  };
+
+  const handleStep = (direction: 1 | -1) => {
+    const range = shiftDateRange(startDate, endDate, direction);
+    onChange({
+      period: matchPeriodPreset(range.startDate, range.endDate),
+      ...range,
+    });
+  };
+
+  const handleDateChange = (nextStart: string, nextEnd: string) => {
+    if (!nextStart || !nextEnd) return;
+    onChange({
+      period: matchPeriodPreset(nextStart, nextEnd),
+      startDate: nextStart,
+      endDate: nextEnd,
+    });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-gray-900">
+      <Button
+        variant="secondary"
+        size="sm"
+        onClick={() => handleStep(-1)}
+        aria-label="Previous period"
+      >
+        <ChevronLeft className="w-4 h-4" />
+      </Button>
+      <select
+        value={period}
+        onChange={(e) => handlePresetChange(e.target.value)}
+        className="px-3 py-1 border border-gray-300 rounded-md text-sm"
+      >
+        {presetOptions.map((preset) => (
+          <option key={preset.value} value={preset.value}>
+            {preset.label}
+          </option>
+        ))}
+        <option value="custom" disabled>
+          Custom range
+        </option>
+      </select>
+      <Button
+        variant="secondary"
+        size="sm"
+        onClick={() => handleStep(1)}
+        aria-label="Next period"
+      >
+        <ChevronRight className="w-4 h-4" />
+      </Button>
+      <input
+        type="date"
+        value={startDate}
+        max={endDate}
+        onChange={(e) => handleDateChange(e.target.value, endDate)}
+        className="px-3 py-1 border border-gray-300 rounded-md text-sm"
+      />
+      <span className="self-center text-gray-500">to</span>
+      <input
+        type="date"
+        value={endDate}
+        min={startDate}
+        onChange={(e) => handleDateChange(startDate, e.target.value)}
+        className="px-3 py-1 border border-gray-300 rounded-md text-sm"
+      />
+    </div>
+  );
+}
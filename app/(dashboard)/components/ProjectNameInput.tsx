@@ -0,0 +1,125 @@
+"use client";
+
+import { useState } from "react";
+import { UseFormRegisterReturn } from "react-hook-form";
+import { AlertTriangle } from "lucide-react";
+import { Input } from "@/components/ui/Input";
+import {
+  ProjectSuggestion,
+  findSimilarProjects,
+  matchProjectSuggestions,
+} from "@/lib/projects";
+
+interface ProjectNameInputProps {
+  registration: UseFormRegisterReturn;
+  value: string;
+  suggestions: ProjectSuggestion[];
+  onSelect: (name: string) => void;
+  error?: string;
+}
+
+export function ProjectNameInput({
+  registration,
+  value,
+  suggestions,
+  onSelect,
+  error,
+}: ProjectNameInputProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const matches = matchProjectSuggestions(suggestions, value).filter(
+    (suggestion) => suggestion.name !== value
+  );
+  const similarProjects = isOpen ? [] : findSimilarProjects(value, suggestions);
+
+  const selectSuggestion = (name: string) => {
+    onSelect(name);
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen || matches.length === 0) return;
+
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setHighlighted((highlighted + 1) % matches.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setHighlighted((highlighted - 1 + matches.length) % matches.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      selectSuggestion(matches[highlighted].name);
+    } else if (e.key === "Escape") {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Input
+        label="Project Name (Optional)"
+        {...registration}
+        onChange={(e) => {
+          registration.onChange(e);
+          setIsOpen(true);
+          setHighlighted(0);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={(e) => {
+          registration.onBlur(e);
+          setIsOpen(false);
+        }}
+        onKeyDown={handleKeyDown}
+        error={error}
+        placeholder="e.g., Kron Worklog System"
+        autoComplete="off"
+      />
+
+      {isOpen && matches.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg max-h-60 overflow-y-auto">
+          {matches.map((suggestion, index) => (
+            <li
+              key={suggestion.name}
+              // Keep focus in the input so blur does not close the list first
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => selectSuggestion(suggestion.name)}
+              className={`px-3 py-2 cursor-pointer flex justify-between text-sm ${
+                index === highlighted
+                  ? "bg-blue-50 text-blue-900"
+                  : "text-gray-900"
+              }`}
+            >
+              <span>{suggestion.name}</span>
+              <span className="text-gray-500">
+                {suggestion.count}{" "}
+                {suggestion.count === 1 ? "entry" : "entries"}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {similarProjects.length > 0 && (
+        <div className="mt-2 bg-yellow-50 border border-yellow-200 rounded-lg p-3 flex items-start space-x-2">
+          <AlertTriangle className="h-4 w-4 text-yellow-600 mt-0.5 flex-shrink-0" />
+          <div className="text-sm text-gray-900">
+            <p>This is a new project name. Did you mean:</p>
+            <div className="flex flex-wrap gap-2 mt-1">
+              {similarProjects.map((suggestion) => (
+                <button
+                  key={suggestion.name}
+                  type="button"
+                  onClick={() => selectSuggestion(suggestion.name)}
+                  className="text-blue-600 hover:text-blue-900 underline"
+                >
+                  {suggestion.name}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
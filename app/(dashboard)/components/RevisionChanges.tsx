@@ -0,0 +1,45 @@
+"use client";
+
+import { WorklogRevision } from "@/lib/types";
+import {
+  formatFieldValue,
+  getFieldLabel,
+  getVisibleChanges,
+} from "@/lib/worklog-audit";
+
+interface RevisionChangesProps {
+  revision: WorklogRevision;
+}
+
+export function RevisionChanges({ revision }: RevisionChangesProps) {
+  const changes = getVisibleChanges(revision.changes);
+
+  if (changes.length === 0) {
+    return <p className="text-sm text-gray-500">No field changes recorded</p>;
+  }
+
+  return (
+    <dl className="space-y-1 text-sm">
+      {changes.map((change) => (
+        <div key={change.field} className="flex flex-wrap gap-x-2">
+          <dt className="font-medium text-gray-700">
+            {getFieldLabel(change.field)}:
+          </dt>
+          <dd className="text-gray-900">
+            {revision.action !== "CREATE" && (
+              <span className="line-through text-red-700">
+                {formatFieldValue(change.field, change.oldValue)}
+              </span>
+            )}
+            {revision.action === "UPDATE" && " → "}
+            {revision.action !== "DELETE" && (
+              <span className="text-green-700">
+                {formatFieldValue(change.field, change.newValue)}
+              </span>
+            )}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
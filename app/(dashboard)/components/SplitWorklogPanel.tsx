@@ -0,0 +1,222 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { toast } from "react-hot-toast";
+import { AlertCircle, Plus, Scissors, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Select } from "@/components/ui/Select";
+import { worklogTypeApi } from "@/lib/api";
+import { Worklog, WorklogType } from "@/lib/types";
+import {
+  HOURS_INCREMENT,
+  MAX_HOURS_PER_DAY,
+  formatHours,
+  sumHours,
+} from "@/lib/hours";
+import { SplitPart, executeSplit, validateSplit } from "@/lib/split-merge";
+
+interface SplitWorklogPanelProps {
+  worklog: Worklog;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+interface PartInput {
+  worklogTypeId: string;
+  hoursWorked: string;
+  projectName: string;
+  description: string;
+}
+
+export function SplitWorklogPanel({
+  worklog,
+  onClose,
+  onSaved,
+}: SplitWorklogPanelProps) {
+  const [worklogTypes, setWorklogTypes] = useState<WorklogType[]>([]);
+  const [parts, setParts] = useState<PartInput[]>([
+    {
+      worklogTypeId: worklog.worklogTypeId.toString(),
+      hoursWorked: worklog.hoursWorked.toString(),
+      projectName: worklog.projectName || "",
+      description: worklog.description,
+    },
+    {
+      worklogTypeId: worklog.worklogTypeId.toString(),
+      hoursWorked: "",
+      projectName: worklog.projectName || "",
+      description: "",
+    },
+  ]);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const splitParts: SplitPart[] = parts.map((part) => ({
+    worklogTypeId: Number(part.worklogTypeId),
+    hoursWorked: Number(part.hoursWorked),
+    projectName: part.projectName.trim(),
+    description: part.description,
+  }));
+  const remainingHours =
+    worklog.hoursWorked - sumHours(splitParts.filter((p) => p.hoursWorked));
+
+  useEffect(() => {
+    loadWorklogTypes();
+  }, []);
+
+  const loadWorklogTypes = async () => {
+    try {
+      const types = await worklogTypeApi.getActiveTypes();
+      setWorklogTypes(types);
+    } catch (error) {
+      console.error("Failed to load worklog types:", error);
+      toast.error("Failed to load work types");
+    }
+  };
+
+  const updatePart = (index: number, field: keyof PartInput, value: string) => {
+    setParts((prev) =>
+      prev.map((part, i) => (i === index ? { ...part, [field]: value } : part))
+    );
+  };
+
+  const handleSave = async () => {
+    const validationError = validateSplit(worklog, splitParts);
+    setError(validationError);
+    if (validationError) return;
+
+    setIsSaving(true);
+    try {
+      const result = await executeSplit(worklog, splitParts);
+      if (!result.error) {
+        toast.success(`Split into ${parts.length} worklogs`);
+        onSaved();
+        onClose();
+        return;
+      }
+
+      setError(
+        result.rolledBack
+          ? `${result.error}. Nothing was changed.`
+          : `${result.error}. The split could not be fully undone; please review this day's entries.`
+      );
+      if (!result.rolledBack) {
+        onSaved();
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const worklogTypeOptions = worklogTypes.map((type) => ({
+    value: type.id,
+    label: type.name,
+  }));
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200 space-y-4">
+      <p className="text-sm text-gray-600">
+        Split {formatHours(worklog.hoursWorked)} hours into separate entries.
+        The parts must add up to the original hours.
+      </p>
+
+      {parts.map((part, index) => (
+        <div
+          key={index}
+          className="grid grid-cols-1 md:grid-cols-4 gap-3 items-start"
+        >
+          <Select
+            options={worklogTypeOptions}
+            value={part.worklogTypeId}
+            onChange={(e) => updatePart(index, "worklogTypeId", e.target.value)}
+          />
+          <Input
+            type="number"
+            step={HOURS_INCREMENT}
+            min={HOURS_INCREMENT}
+            max={MAX_HOURS_PER_DAY}
+            value={part.hoursWorked}
+            onChange={(e) => updatePart(index, "hoursWorked", e.target.value)}
+            placeholder="Hours"
+          />
+          <Input
+            value={part.projectName}
+            onChange={(e) => updatePart(index, "projectName", e.target.value)}
+            placeholder="Project (optional)"
+          />
+          <div className="flex gap-2">
+            <Input
+              value={part.description}
+              onChange={(e) => updatePart(index, "description", e.target.value)}
+              placeholder="Description"
+            />
+            {parts.length > 2 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  setParts((prev) => prev.filter((_, i) => i !== index))
+                }
+                title="Remove part"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+
+      <p
+        className={`text-sm ${
+          remainingHours === 0 ? "text-green-600" : "text-yellow-600"
+        }`}
+      >
+        {remainingHours === 0
+          ? "All hours are assigned."
+          : `${formatHours(remainingHours)} hours left to assign.`}
+      </p>
+
+      {error && (
+        <p className="flex items-center text-sm text-red-600">
+          <AlertCircle className="w-4 h-4 mr-1 flex-shrink-0" />
+          {error}
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={() =>
+            setParts((prev) => [
+              ...prev,
+              {
+                worklogTypeId: worklog.worklogTypeId.toString(),
+                hoursWorked: "",
+                projectName: worklog.projectName || "",
+                description: "",
+              },
+            ])
+          }
+          disabled={isSaving}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Part
+        </Button>
+        <Button size="sm" onClick={handleSave} disabled={isSaving}>
+          <Scissors className="w-4 h-4 mr-2" />
+          {isSaving ? "Saving..." : "Split Worklog"}
+        </Button>
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={onClose}
+          disabled={isSaving}
+        >
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "react-hot-toast";
+import { AlertCircle, CloudOff, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { formatHours } from "@/lib/hours";
+import { getDraftKey, saveDraft, toDraftValues } from "@/lib/drafts";
+import {
+  QueuedWorklogChange,
+  SYNC_QUEUE_CHANGED_EVENT,
+  loadSyncQueue,
+  removeQueuedChange,
+  replaySyncQueue,
+} from "@/lib/sync-queue";
+import { formatDisplayDate } from "@/lib/date-settings";
+
+interface SyncIndicatorProps {
+  // Only this user's queued changes are shown and sent
+  userId: number;
+}
+
+export function SyncIndicator({ userId }: SyncIndicatorProps) {
+  const router = useRouter();
+  const [queue, setQueue] = useState<QueuedWorklogChange[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const failedCount = queue.filter((change) => change.error).length;
+
+  useEffect(() => {
+    const syncQueue = () => setQueue(loadSyncQueue(userId));
+    syncQueue();
+
+    // Keep in sync with changes from this tab and from other tabs
+    window.addEventListener(SYNC_QUEUE_CHANGED_EVENT, syncQueue);
+    window.addEventListener("storage", syncQueue);
+    window.addEventListener("online", handleSync);
+    if (navigator.onLine) {
+      handleSync();
+    }
+    return () => {
+      window.removeEventListener(SYNC_QUEUE_CHANGED_EVENT, syncQueue);
+      window.removeEventListener("storage", syncQueue);
+      window.removeEventListener("online", handleSync);
+    };
+  }, [userId]);
+
+  const handleSync = async () => {
+    if (loadSyncQueue(userId).every((change) => change.error)) return;
+
+    setIsSyncing(true);
+    try {
+      const { synced, failed } = await replaySyncQueue(userId);
+      if (synced > 0) {
+        toast.success(`Synced ${synced} offline worklog(s)`);
+        router.refresh();
+      }
+      if (failed > 0) {
+        toast.error(`${failed} offline worklog(s) were rejected by the server`);
+      }
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  // Move a rejected change back into the form so it can be corrected
+  const handleEdit = (change: QueuedWorklogChange) => {
+    // A new entry for a report reopens on the form pre-filled for that report
+    const employeeId = change.worklogId ? undefined : change.payload.employeeId;
+    saveDraft(
+      userId,
+      getDraftKey(change.worklogId, employeeId ? { employeeId } : undefined),
+      toDraftValues(change.payload)
+    );
+    removeQueuedChange(userId, change.id);
+    setIsOpen(false);
+    router.push(
+      change.worklogId
+        ? `/worklogs/${change.worklogId}/edit`
+        : employeeId
+        ? `/worklogs/new?employeeId=${employeeId}`
+        : "/worklogs/new"
+    );
+  };
+
+  if (queue.length === 0) return null;
+
+  return (
+    <div className="relative">
+      <Button
+        variant={failedCount > 0 ? "danger" : "secondary"}
+        size="sm"
+        onClick={() => setIsOpen(!isOpen)}
+        title="Worklogs waiting to be saved"
+      >
+        {isSyncing ? (
+          <RefreshCw className="w-4 h-4 mr-1 animate-spin" />
+        ) : (
+          <CloudOff className="w-4 h-4 mr-1" />
+        )}
+        {queue.length} pending
+      </Button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white rounded-lg shadow-lg border border-gray-200 p-4 z-50 space-y-3">
+          <p className="text-sm text-gray-600">
+            These worklogs were saved while offline and will be sent in order
+            once the connection is back.
+          </p>
+          {queue.map((change) => (
+            <div
+              key={change.id}
+              className="border-b border-gray-100 pb-3 last:border-b-0 text-sm"
+            >
+              <p className="font-medium text-gray-900">
+                {change.worklogId ? "Update" : "New"} •{" "}
+                {formatDisplayDate(change.payload.workDate)} •{" "}
+                {formatHours(change.payload.hoursWorked)} hours
+              </p>
+              <p className="text-gray-600 truncate">
+                {change.payload.description}
+              </p>
+              {change.error && (
+                <>
+                  <p className="flex items-center text-red-600 mt-1">
+                    <AlertCircle className="w-4 h-4 mr-1 flex-shrink-0" />
+                    {change.error}
+                  </p>
+                  <div className="flex gap-2 mt-2">
+                    <Button size="sm" onClick={() => handleEdit(change)}>
+                      Edit
+                    </Button>
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => removeQueuedChange(userId, change.id)}
+                    >
+                      Discard
+                    </Button>
+                  </div>
+                </>
+              )}
+            </div>
+          ))}
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={handleSync}
+            disabled={isSyncing || failedCount === queue.length}
+          >
+            <RefreshCw className="w-4 h-4 mr-1" />
+            Sync Now
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
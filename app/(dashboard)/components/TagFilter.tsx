@@ -0,0 +1,50 @@
+"use client";
+
+import { Tag } from "lucide-react";
+
+interface TagFilterProps {
+  tags: string[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+export function TagFilter({ tags, selected, onChange }: TagFilterProps) {
+  if (tags.length === 0) return null;
+
+  const toggleTag = (tag: string) => {
+    onChange(
+      selected.includes(tag)
+        ? selected.filter((t) => t !== tag)
+        : [...selected, tag]
+    );
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Tag className="w-4 h-4 text-gray-500" />
+      {tags.map((tag) => (
+        <button
+          key={tag}
+          type="button"
+          onClick={() => toggleTag(tag)}
+          className={`px-2 py-0.5 text-xs font-medium rounded-full border ${
+            selected.includes(tag)
+              ? "bg-blue-600 text-white border-blue-600"
+              : "bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+          }`}
+        >
+          #{tag}
+        </button>
+      ))}
+      {selected.length > 0 && (
+        <button
+          type="button"
+          onClick={() => onChange([])}
+          className="text-xs text-blue-600 hover:text-blue-900"
+        >
+          Clear
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import { useState } from "react";
+import { X } from "lucide-react";
+import { normalizeTag } from "@/lib/tags";
+
+interface TagInputProps {
+  tags: string[];
+  suggestions: string[];
+  onChange: (tags: string[]) => void;
+}
+
+export function TagInput({ tags, suggestions, onChange }: TagInputProps) {
+  const [inputValue, setInputValue] = useState("");
+  const [isOpen, setIsOpen] = useState(false);
+
+  const query = normalizeTag(inputValue);
+  const matches = suggestions
+    .filter((tag) => !tags.includes(tag) && tag.includes(query))
+    .slice(0, 8);
+
+  const addTag = (value: string) => {
+    const tag = normalizeTag(value);
+    if (tag && !tags.includes(tag)) {
+      onChange([...tags, tag]);
+    }
+    setInputValue("");
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(tags.filter((t) => t !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      // Keep Enter from submitting the form
+      e.preventDefault();
+      addTag(inputValue);
+    } else if (e.key === "Backspace" && !inputValue && tags.length > 0) {
+      removeTag(tags[tags.length - 1]);
+    } else if (e.key === "Escape") {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative space-y-1">
+      <label className="block text-sm font-medium text-gray-900">
+        Tags (Optional)
+      </label>
+      <div className="w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm flex flex-wrap gap-2 focus-within:ring-2 focus-within:ring-blue-500 focus-within:border-blue-500">
+        {tags.map((tag) => (
+          <span
+            key={tag}
+            className="inline-flex items-center px-2 py-0.5 text-xs font-medium bg-gray-100 text-gray-800 rounded-full"
+          >
+            #{tag}
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              className="ml-1 text-gray-500 hover:text-gray-900"
+              aria-label={`Remove tag ${tag}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          value={inputValue}
+          onChange={(e) => {
+            setInputValue(e.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => {
+            setIsOpen(false);
+            if (inputValue) addTag(inputValue);
+          }}
+          onKeyDown={handleKeyDown}
+          className="flex-1 min-w-[8rem] text-gray-900 focus:outline-none"
+          placeholder={tags.length === 0 ? "e.g., code-review" : ""}
+        />
+      </div>
+
+      {isOpen && matches.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg max-h-60 overflow-y-auto">
+          {matches.map((tag) => (
+            <li
+              key={tag}
+              // Keep focus in the input so blur does not close the list first
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => addTag(tag)}
+              className="px-3 py-2 cursor-pointer text-sm text-gray-900 hover:bg-blue-50"
+            >
+              #{tag}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,283 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { SubmitHandler, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { toast } from "react-hot-toast";
+import { Edit, Trash2 } from "lucide-react";
+import { Card, CardHeader, CardTitle } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Select } from "@/components/ui/Select";
+import { authApi, worklogTypeApi } from "@/lib/api";
+import { User, WorklogTemplate, WorklogType } from "@/lib/types";
+import { extractErrorMessage } from "@/lib/error-handler";
+import { createTemplateId, templateApi } from "@/lib/templates";
+import { HOURS_INCREMENT, MAX_HOURS_PER_DAY, validateHours } from "@/lib/hours";
+
+const templateSchema = z.object({
+  name: z.string().trim().min(1, "Please enter a template name"),
+  worklogTypeId: z.string().min(1, "Please select a work type"),
+  defaultHours: z
+    .string()
+    .min(1, "Default hours are required")
+    .superRefine((val, ctx) => {
+      const hoursError = validateHours(Number(val));
+      if (hoursError) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: hoursError });
+      }
+    }),
+  projectName: z.string().optional(),
+  description: z.string().optional(),
+});
+
+type TemplateFormData = z.infer<typeof templateSchema>;
+
+const emptyForm: TemplateFormData = {
+  name: "",
+  worklogTypeId: "",
+  defaultHours: "",
+  projectName: "",
+  description: "",
+};
+
+export function TemplateManager() {
+  const [user, setUser] = useState<User | null>(null);
+  const [templates, setTemplates] = useState<WorklogTemplate[]>([]);
+  const [worklogTypes, setWorklogTypes] = useState<WorklogType[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<TemplateFormData>({
+    resolver: zodResolver(templateSchema),
+    defaultValues: emptyForm,
+  });
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [currentUser, types] = await Promise.all([
+        authApi.getCurrentUser(),
+        worklogTypeApi.getActiveTypes(),
+      ]);
+      setUser(currentUser);
+      setWorklogTypes(types);
+      setTemplates(await templateApi.getTemplates(currentUser.id));
+    } catch (error) {
+      console.error("Failed to load templates:", error);
+      const errorMessage = extractErrorMessage(error);
+      toast.error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const onSubmit: SubmitHandler<TemplateFormData> = async (data) => {
+    if (!user) return;
+
+    try {
+      await templateApi.saveTemplate(user.id, {
+        id: editingId || createTemplateId(),
+        name: data.name.trim(),
+        worklogTypeId: Number(data.worklogTypeId),
+        defaultHours: Number(data.defaultHours),
+        projectName: data.projectName || "",
+        description: data.description || "",
+      });
+      toast.success(editingId ? "Template updated" : "Template saved");
+      setEditingId(null);
+      reset(emptyForm);
+      setTemplates(await templateApi.getTemplates(user.id));
+    } catch (error) {
+      console.error("Failed to save template:", error);
+      const errorMessage = extractErrorMessage(error);
+      toast.error(errorMessage);
+    }
+  };
+
+  const handleEdit = (template: WorklogTemplate) => {
+    setEditingId(template.id);
+    reset({
+      name: template.name,
+      worklogTypeId: template.worklogTypeId.toString(),
+      defaultHours: template.defaultHours.toString(),
+      projectName: template.projectName,
+      description: template.description,
+    });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    reset(emptyForm);
+  };
+
+  const handleDelete = async (template: WorklogTemplate) => {
+    if (!user) return;
+    if (!confirm(`Delete the template "${template.name}"?`)) return;
+
+    try {
+      await templateApi.deleteTemplate(user.id, template.id);
+      toast.success("Template deleted");
+      if (editingId === template.id) {
+        handleCancelEdit();
+      }
+      setTemplates(await templateApi.getTemplates(user.id));
+    } catch (error) {
+      console.error("Failed to delete template:", error);
+      const errorMessage = extractErrorMessage(error);
+      toast.error(errorMessage);
+    }
+  };
+
+  const worklogTypeOptions = worklogTypes.map((type) => ({
+    value: type.id,
+    label: type.name,
+  }));
+
+  const getTypeName = (worklogTypeId: number) =>
+    worklogTypes.find((type) => type.id === worklogTypeId)?.name ||
+    "Unknown type";
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>{editingId ? "Edit Template" : "New Template"}</CardTitle>
+        </CardHeader>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <Input
+              label="Template Name"
+              {...register("name")}
+              error={errors.name?.message}
+              placeholder="e.g., Daily standup"
+            />
+
+            <Select
+              label="Work Type"
+              options={worklogTypeOptions}
+              {...register("worklogTypeId")}
+              error={errors.worklogTypeId?.message}
+            />
+
+            <Input
+              label="Default Hours"
+              type="number"
+              step={HOURS_INCREMENT}
+              min={HOURS_INCREMENT}
+              max={MAX_HOURS_PER_DAY}
+              {...register("defaultHours")}
+              error={errors.defaultHours?.message}
+              placeholder="e.g., 1"
+            />
+
+            <Input
+              label="Project Name (Optional)"
+              {...register("projectName")}
+              error={errors.projectName?.message}
+              placeholder="e.g., Kron Worklog System"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Description Skeleton (Optional)
+            </label>
+            <textarea
+              {...register("description")}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="e.g., Code review for ..."
+            />
+          </div>
+
+          <div className="flex gap-4">
+            <Button type="submit" disabled={!user}>
+              {editingId ? "Update Template" : "Save Template"}
+            </Button>
+            {editingId && (
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={handleCancelEdit}
+              >
+                Cancel
+              </Button>
+            )}
+          </div>
+        </form>
+      </Card>
+
+      {isLoading ? (
+        <Card>
+          <div className="animate-pulse space-y-3">
+            <div className="h-4 bg-gray-200 rounded w-1/4"></div>
+            <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+          </div>
+        </Card>
+      ) : templates.length === 0 ? (
+        <Card className="text-center py-12">
+          <p className="text-gray-500">No templates saved yet</p>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {templates.map((template) => (
+            <Card
+              key={template.id}
+              className="hover:shadow-lg transition-shadow"
+            >
+              <div className="flex justify-between items-start">
+                <div className="flex-1">
+                  <p className="font-medium text-gray-900 mb-2">
+                    {template.name}
+                  </p>
+                  <div className="flex items-center gap-3 mb-2">
+                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                      {getTypeName(template.worklogTypeId)}
+                    </span>
+                    <span className="text-sm font-medium text-gray-900">
+                      {template.defaultHours} hours
+                    </span>
+                    {template.projectName && (
+                      <span className="text-sm text-gray-600">
+                        • {template.projectName}
+                      </span>
+                    )}
+                  </div>
+                  {template.description && (
+                    <p className="text-gray-700">{template.description}</p>
+                  )}
+                </div>
+                <div className="flex gap-2 ml-4">
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => handleEdit(template)}
+                  >
+                    <Edit className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="danger"
+                    size="sm"
+                    onClick={() => handleDelete(template)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
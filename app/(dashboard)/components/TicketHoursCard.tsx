@@ -0,0 +1,139 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardHeader, CardTitle } from "@/components/ui/Card";
+import { Select } from "@/components/ui/Select";
+import { Worklog } from "@/lib/types";
+import { formatHours, sumHours } from "@/lib/hours";
+import {
+  aggregateHoursByTicket,
+  getTicketUrl,
+  hasTicketKey,
+} from "@/lib/tickets";
+import { formatDisplayDate } from "@/lib/date-settings";
+import { TicketText } from "./TicketText";
+
+interface TicketHoursCardProps {
+  worklogs: Worklog[];
+}
+
+export function TicketHoursCard({ worklogs }: TicketHoursCardProps) {
+  const [selectedTicket, setSelectedTicket] = useState("");
+
+  const ticketHours = aggregateHoursByTicket(worklogs);
+  const ticketWorklogs = selectedTicket
+    ? worklogs.filter((w) => hasTicketKey(w, selectedTicket))
+    : [];
+  const visibleTickets = selectedTicket
+    ? ticketHours.filter((ticket) => ticket.key === selectedTicket)
+    : ticketHours;
+
+  const ticketOptions = ticketHours.map((ticket) => ({
+    value: ticket.key,
+    label: ticket.key,
+  }));
+
+  return (
+    <Card className="mt-8">
+      <CardHeader className="flex flex-wrap justify-between items-center gap-4">
+        <CardTitle>Hours by Ticket</CardTitle>
+        {ticketHours.length > 0 && (
+          <div className="w-full max-w-xs">
+            <Select
+              options={[{ value: "", label: "All Tickets" }, ...ticketOptions]}
+              value={selectedTicket}
+              onChange={(e) => setSelectedTicket(e.target.value)}
+            />
+          </div>
+        )}
+      </CardHeader>
+
+      {ticketHours.length === 0 ? (
+        <p className="text-gray-500">
+          No ticket references found in the descriptions for this period.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Ticket
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Hours
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Entries
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  People
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {visibleTickets.map((ticket) => {
+                const url = getTicketUrl(ticket.key);
+                return (
+                  <tr key={ticket.key} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      {url ? (
+                        <a
+                          href={url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-blue-600 hover:text-blue-900"
+                        >
+                          {ticket.key}
+                        </a>
+                      ) : (
+                        <span className="text-gray-900">{ticket.key}</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatHours(ticket.hours)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {ticket.worklogCount}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {ticket.employeeNames.join(", ")}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {selectedTicket && (
+        <div className="mt-6">
+          <h3 className="text-sm font-medium text-gray-900 mb-2">
+            Entries mentioning {selectedTicket} (
+            {formatHours(sumHours(ticketWorklogs))} hours logged)
+          </h3>
+          <div className="space-y-2">
+            {ticketWorklogs.map((worklog) => (
+              <div
+                key={worklog.id}
+                className="border-l-4 border-blue-500 pl-4 py-2 text-sm"
+              >
+                <div className="flex flex-wrap gap-2 text-gray-600 mb-1">
+                  <span className="font-medium text-gray-900">
+                    {worklog.employeeName}
+                  </span>
+                  <span>• {formatDisplayDate(worklog.workDate)}</span>
+                  <span>• {formatHours(worklog.hoursWorked)} hours</span>
+                </div>
+                <p className="text-gray-700">
+                  <TicketText text={worklog.description} />
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,37 @@
+import { getTicketUrl, splitTicketText } from "@/lib/tickets";
+
+interface TicketTextProps {
+  text: string;
+}
+
+/**
+ * Renders a description with its ticket keys linked to the issue tracker
+ */
+export function TicketText({ text }: TicketTextProps) {
+  return (
+    <>
+      {splitTicketText(text).map((segment, index) => {
+        if (!segment.ticketKey) {
+          return <span key={index}>{segment.text}</span>;
+        }
+
+        const url = getTicketUrl(segment.ticketKey);
+        return url ? (
+          <a
+            key={index}
+            href={url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="font-medium text-blue-600 hover:text-blue-900 hover:underline"
+          >
+            {segment.text}
+          </a>
+        ) : (
+          <span key={index} className="font-medium text-blue-700">
+            {segment.text}
+          </span>
+        );
+      })}
+    </>
+  );
+}
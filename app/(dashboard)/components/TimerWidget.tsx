@@ -0,0 +1,223 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "react-hot-toast";
+import { Pause, Play, Square, Timer } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { Select } from "@/components/ui/Select";
+import { worklogTypeApi } from "@/lib/api";
+import { WorklogType } from "@/lib/types";
+import {
+  TIMERS_CHANGED_EVENT,
+  TimerSession,
+  formatElapsed,
+  getElapsedMs,
+  getGroupElapsedMs,
+  getGroupWorkDate,
+  groupTimers,
+  loadTimers,
+  pauseTimer,
+  pauseTimerGroup,
+  resumeTimer,
+  roundTimerHours,
+  saveTimers,
+  startTimer,
+} from "@/lib/timer";
+
+export function TimerWidget() {
+  const router = useRouter();
+  const [sessions, setSessions] = useState<TimerSession[]>([]);
+  const [now, setNow] = useState(Date.now());
+  const [isOpen, setIsOpen] = useState(false);
+  const [worklogTypes, setWorklogTypes] = useState<WorklogType[]>([]);
+  const [newTypeId, setNewTypeId] = useState("");
+  const [newProject, setNewProject] = useState("");
+
+  const runningSession = sessions.find((session) => session.runningSince);
+  const groups = groupTimers(sessions);
+
+  useEffect(() => {
+    const syncTimers = () => setSessions(loadTimers());
+    syncTimers();
+
+    // Keep in sync with changes from this tab and from other tabs
+    window.addEventListener(TIMERS_CHANGED_EVENT, syncTimers);
+    window.addEventListener("storage", syncTimers);
+    return () => {
+      window.removeEventListener(TIMERS_CHANGED_EVENT, syncTimers);
+      window.removeEventListener("storage", syncTimers);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!runningSession) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [runningSession]);
+
+  useEffect(() => {
+    if (isOpen && worklogTypes.length === 0) {
+      loadWorklogTypes();
+    }
+  }, [isOpen]);
+
+  const loadWorklogTypes = async () => {
+    try {
+      const types = await worklogTypeApi.getActiveTypes();
+      setWorklogTypes(types);
+    } catch (error) {
+      console.error("Failed to load worklog types:", error);
+      toast.error("Failed to load work types");
+    }
+  };
+
+  const updateSessions = (next: TimerSession[]) => {
+    setNow(Date.now());
+    saveTimers(next);
+  };
+
+  const handleStart = () => {
+    const type = worklogTypes.find((t) => t.id === Number(newTypeId));
+    if (!type) {
+      toast.error("Please select a work type");
+      return;
+    }
+    updateSessions(startTimer(sessions, type.id, type.name, newProject));
+    setNewTypeId("");
+    setNewProject("");
+  };
+
+  const handleStop = (groupKey: string) => {
+    const group = groups.find((g) => g.key === groupKey);
+    if (!group) return;
+
+    // Sessions stay (paused) until the worklog is saved, so cancelling the
+    // form doesn't lose the tracked time
+    updateSessions(pauseTimerGroup(sessions, groupKey));
+    setIsOpen(false);
+
+    const params = new URLSearchParams({
+      workDate: getGroupWorkDate(group),
+      worklogTypeId: group.worklogTypeId.toString(),
+      hoursWorked: roundTimerHours(getGroupElapsedMs(group)).toString(),
+      projectName: group.projectName,
+      timer: group.key,
+    });
+    router.push(`/worklogs/new?${params.toString()}`);
+  };
+
+  const worklogTypeOptions = worklogTypes.map((type) => ({
+    value: type.id,
+    label: type.name,
+  }));
+
+  return (
+    <div className="relative">
+      <Button
+        variant={runningSession ? "primary" : "secondary"}
+        size="sm"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        <Timer className="w-4 h-4 mr-1" />
+        {runningSession
+          ? formatElapsed(getElapsedMs(runningSession, now))
+          : "Timer"}
+      </Button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white rounded-lg shadow-lg border border-gray-200 p-4 z-50 space-y-4">
+          {groups.length > 0 && (
+            <div className="space-y-3">
+              {groups.map((group) => (
+                <div
+                  key={group.key}
+                  className="border-b border-gray-100 pb-3 last:border-b-0"
+                >
+                  <div className="flex justify-between items-center">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">
+                        {group.worklogTypeName}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {group.projectName || "No project"}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-mono text-gray-900">
+                        {formatElapsed(getGroupElapsedMs(group, now))}
+                      </span>
+                      <Button
+                        variant="danger"
+                        size="sm"
+                        onClick={() => handleStop(group.key)}
+                        title="Stop and log"
+                      >
+                        <Square className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="mt-2 space-y-1">
+                    {group.sessions.map((session) => (
+                      <div
+                        key={session.id}
+                        className="flex justify-between items-center text-xs text-gray-600"
+                      >
+                        <span className="font-mono">
+                          {formatElapsed(getElapsedMs(session, now))}
+                        </span>
+                        {session.runningSince ? (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() =>
+                              updateSessions(pauseTimer(sessions, session.id))
+                            }
+                            title="Pause"
+                          >
+                            <Pause className="w-3 h-3" />
+                          </Button>
+                        ) : (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() =>
+                              updateSessions(resumeTimer(sessions, session.id))
+                            }
+                            title="Resume"
+                          >
+                            <Play className="w-3 h-3" />
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-900">New Timer</p>
+            <Select
+              options={worklogTypeOptions}
+              value={newTypeId}
+              onChange={(e) => setNewTypeId(e.target.value)}
+            />
+            <input
+              type="text"
+              value={newProject}
+              onChange={(e) => setNewProject(e.target.value)}
+              placeholder="Project name (optional)"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+            />
+            <Button size="sm" onClick={handleStart} className="w-full">
+              <Play className="w-4 h-4 mr-1" />
+              Start
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,562 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { addWeeks, isWeekend, parseISO } from "date-fns";
+import { toast } from "react-hot-toast";
+import {
+  AlertCircle,
+  ChevronLeft,
+  ChevronRight,
+  Lock,
+  Plus,
+  Save,
+  Send,
+  Trash2,
+} from "lucide-react";
+import { Card } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Select } from "@/components/ui/Select";
+import { periodLockApi, worklogApi, worklogTypeApi } from "@/lib/api";
+import { PeriodLock, TimesheetSubmission, WorklogType } from "@/lib/types";
+import { extractErrorMessage } from "@/lib/error-handler";
+import { formatPeriodDescription } from "@/lib/date-utils";
+import { getHoliday, isHoliday } from "@/lib/holidays";
+import { HOURS_INCREMENT, formatHours } from "@/lib/hours";
+import {
+  TimesheetRow,
+  buildTimesheetRows,
+  createTimesheetRow,
+  getCellKey,
+  getTimesheetChanges,
+  getTimesheetDays,
+  getTimesheetWeek,
+  isCellEditable,
+  restoreTimesheetEdits,
+  saveTimesheetChanges,
+  validateCellValue,
+} from "@/lib/timesheet";
+import { formatLocalized } from "@/lib/date-settings";
+import {
+  TIMESHEET_STATUS_LABELS,
+  getLockedWeekMessage,
+  getTimesheetStatusColor,
+  isLockedStatus,
+} from "@/lib/timesheet-status";
+import {
+  findPeriodLock,
+  getLocksInRange,
+  getPeriodLockMessage,
+} from "@/lib/period-locks";
+import { LockedPeriodsNote } from "./LockedPeriodsNote";
+
+export function WeeklyTimesheet() {
+  const [weekBase, setWeekBase] = useState(new Date());
+  const [rows, setRows] = useState<TimesheetRow[]>([]);
+  const [worklogTypes, setWorklogTypes] = useState<WorklogType[]>([]);
+  const [cellErrors, setCellErrors] = useState<Record<string, string>>({});
+  const [rowErrors, setRowErrors] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [newRowTypeId, setNewRowTypeId] = useState("");
+  const [newRowProject, setNewRowProject] = useState("");
+  // Approval state of the shown week, null when it was never submitted
+  const [submission, setSubmission] = useState<TimesheetSubmission | null>(
+    null
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [periodLocks, setPeriodLocks] = useState<PeriodLock[]>([]);
+
+  const { startDate, endDate } = getTimesheetWeek(weekBase);
+  const days = getTimesheetDays(startDate, endDate);
+  const pendingChanges = getTimesheetChanges(rows, periodLocks);
+  const isWeekLocked = isLockedStatus(submission?.status);
+
+  useEffect(() => {
+    loadWorklogTypes();
+  }, []);
+
+  useEffect(() => {
+    loadWeek();
+  }, [startDate, endDate]);
+
+  const loadWorklogTypes = async () => {
+    try {
+      const types = await worklogTypeApi.getActiveTypes();
+      setWorklogTypes(types);
+    } catch (error) {
+      console.error("Failed to load worklog types:", error);
+      toast.error("Failed to load work types");
+    }
+  };
+
+  const loadWeek = async (failedEdits: Record<string, string> = {}) => {
+    setIsLoading(true);
+    setCellErrors(failedEdits);
+    setRowErrors({});
+    try {
+      const [worklogs, submissions, locks] = await Promise.all([
+        worklogApi.getMyWorklogs(startDate, endDate),
+        worklogApi.getMyTimesheets(startDate, endDate),
+        periodLockApi.getPeriodLocks(),
+      ]);
+      setPeriodLocks(locks);
+      setSubmission(
+        submissions.find((s) => s.weekStartDate === startDate) || null
+      );
+      const freshRows = buildTimesheetRows(worklogs, days);
+      // Keep unsaved edits for failed cells so they can be corrected and retried
+      setRows(restoreTimesheetEdits(freshRows, rows, Object.keys(failedEdits)));
+    } catch (error) {
+      console.error("Failed to load worklogs:", error);
+      const errorMessage = extractErrorMessage(error);
+      toast.error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateCell = (rowKey: string, date: string, value: string) => {
+    setRows((prev) =>
+      prev.map((row) =>
+        row.key === rowKey
+          ? {
+              ...row,
+              cells: { ...row.cells, [date]: { ...row.cells[date], value } },
+            }
+          : row
+      )
+    );
+
+    const cellKey = getCellKey(rowKey, date);
+    const validationError = validateCellValue(value);
+    setCellErrors((prev) => {
+      const next = { ...prev };
+      if (validationError) {
+        next[cellKey] = validationError;
+      } else {
+        delete next[cellKey];
+      }
+      return next;
+    });
+  };
+
+  const updateRowDescription = (rowKey: string, description: string) => {
+    setRows((prev) =>
+      prev.map((row) => (row.key === rowKey ? { ...row, description } : row))
+    );
+  };
+
+  const handleAddRow = () => {
+    const type = worklogTypes.find((t) => t.id === Number(newRowTypeId));
+    if (!type) {
+      toast.error("Please select a work type");
+      return;
+    }
+
+    const row = createTimesheetRow(type.id, type.name, newRowProject, days);
+    if (rows.some((r) => r.key === row.key)) {
+      toast.error("This work type and project already has a row");
+      return;
+    }
+
+    setRows((prev) => [...prev, row]);
+    setNewRowTypeId("");
+    setNewRowProject("");
+  };
+
+  const handleRemoveRow = (rowKey: string) => {
+    setRows((prev) => prev.filter((row) => row.key !== rowKey));
+  };
+
+  const handleSave = async () => {
+    const hasInvalidCells = rows.some((row) =>
+      Object.values(row.cells).some((cell) => validateCellValue(cell.value))
+    );
+    if (hasInvalidCells) {
+      toast.error("Please fix the highlighted cells");
+      return;
+    }
+
+    // New entries need a description, just like in the worklog form
+    const missingDescriptions: Record<string, string> = {};
+    rows.forEach((row) => {
+      const createsEntries = pendingChanges.some(
+        (change) =>
+          change.kind === "create" && change.cellKey.startsWith(`${row.key}@`)
+      );
+      if (createsEntries && row.description.trim().length < 10) {
+        missingDescriptions[row.key] =
+          "Description must be at least 10 characters";
+      }
+    });
+    setRowErrors(missingDescriptions);
+    if (Object.keys(missingDescriptions).length > 0) {
+      toast.error("Please add descriptions for the new entries");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const errors = await saveTimesheetChanges(pendingChanges);
+      const failedCount = Object.keys(errors).length;
+      const savedCount = pendingChanges.length - failedCount;
+
+      if (failedCount === 0) {
+        toast.success(`Saved ${savedCount} change(s)`);
+        await loadWeek();
+      } else {
+        toast.error(
+          `${failedCount} of ${pendingChanges.length} change(s) failed`
+        );
+        await loadWeek(errors);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmitWeek = async () => {
+    if (
+      !confirm(
+        "Submit this week for approval? It cannot be changed while it is being reviewed."
+      )
+    )
+      return;
+
+    setIsSubmitting(true);
+    try {
+      const submitted = await worklogApi.submitTimesheet(startDate);
+      setSubmission(submitted);
+      toast.success("Week submitted for approval");
+      await loadWeek();
+    } catch (error) {
+      console.error("Failed to submit week:", error);
+      const errorMessage = extractErrorMessage(error);
+      toast.error(errorMessage);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const dayTotal = (date: string) =>
+    rows.reduce((sum, row) => sum + (Number(row.cells[date]?.value) || 0), 0);
+  const rowTotal = (row: TimesheetRow) =>
+    days.reduce((sum, date) => sum + (Number(row.cells[date]?.value) || 0), 0);
+  const weekTotal = days.reduce((sum, date) => sum + dayTotal(date), 0);
+
+  const worklogTypeOptions = worklogTypes.map((type) => ({
+    value: type.id,
+    label: type.name,
+  }));
+
+  return (
+    <div className="space-y-6">
+      {/* Week navigation */}
+      <Card>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => setWeekBase((prev) => addWeeks(prev, -1))}
+              disabled={isSaving}
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <span className="text-lg font-semibold text-gray-900">
+              {formatPeriodDescription(startDate, endDate)}
+            </span>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => setWeekBase((prev) => addWeeks(prev, 1))}
+              disabled={isSaving}
+            >
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+          <div className="flex items-center gap-4">
+            <span
+              className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getTimesheetStatusColor(
+                submission?.status || "DRAFT"
+              )}`}
+            >
+              {isWeekLocked && <Lock className="w-3 h-3 mr-1" />}
+              {TIMESHEET_STATUS_LABELS[submission?.status || "DRAFT"]}
+            </span>
+            <span className="text-sm text-gray-600">
+              {pendingChanges.length} unsaved change(s)
+            </span>
+            <Button
+              onClick={handleSave}
+              disabled={
+                isSaving ||
+                isLoading ||
+                isWeekLocked ||
+                pendingChanges.length === 0
+              }
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {isSaving ? "Saving..." : "Save Week"}
+            </Button>
+            <Button
+              variant="secondary"
+              onClick={handleSubmitWeek}
+              disabled={
+                isSubmitting ||
+                isSaving ||
+                isLoading ||
+                isWeekLocked ||
+                pendingChanges.length > 0 ||
+                weekTotal === 0
+              }
+              title={
+                pendingChanges.length > 0
+                  ? "Save your changes before submitting"
+                  : undefined
+              }
+            >
+              <Send className="w-4 h-4 mr-2" />
+              {isSubmitting ? "Submitting..." : "Submit Week"}
+            </Button>
+          </div>
+        </div>
+        {submission?.status === "REJECTED" && (
+          <div className="mt-4 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800">
+            <p className="font-medium">
+              Returned for corrections
+              {submission.reviewedByName && ` by ${submission.reviewedByName}`}
+            </p>
+            {submission.reviewComment && (
+              <p className="mt-1">{submission.reviewComment}</p>
+            )}
+            <p className="mt-1 text-red-700">
+              Fix the entries below and submit the week again.
+            </p>
+          </div>
+        )}
+        {isWeekLocked && (
+          <p className="mt-4 text-sm text-gray-600">
+            {submission && getLockedWeekMessage(submission.status)}
+          </p>
+        )}
+        <LockedPeriodsNote
+          locks={getLocksInRange(startDate, endDate, periodLocks)}
+        />
+      </Card>
+
+      {/* Grid */}
+      <Card>
+        {isLoading ? (
+          <div className="animate-pulse space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-10 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Work Type / Project
+                  </th>
+                  {days.map((date) => (
+                    <th
+                      key={date}
+                      className={`px-2 py-3 text-center text-xs font-medium uppercase tracking-wider ${
+                        isWeekend(parseISO(date)) || isHoliday(date)
+                          ? "text-gray-400"
+                          : "text-gray-500"
+                      }`}
+                      title={getHoliday(date)?.name}
+                    >
+                      <div>{formatLocalized(date, "EEE")}</div>
+                      <div className="font-normal">
+                        {formatLocalized(date, "MMM d")}
+                      </div>
+                      {getHoliday(date) && (
+                        <div className="font-normal normal-case text-orange-600">
+                          {getHoliday(date)?.halfDay ? "Half day" : "Holiday"}
+                        </div>
+                      )}
+                    </th>
+                  ))}
+                  <th className="px-3 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Total
+                  </th>
+                  <th className="px-3 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {rows.length === 0 && (
+                  <tr>
+                    <td
+                      colSpan={days.length + 3}
+                      className="px-6 py-8 text-center text-gray-500"
+                    >
+                      No worklogs for this week. Add a row to get started.
+                    </td>
+                  </tr>
+                )}
+                {rows.map((row) => {
+                  const hasExisting = Object.values(row.cells).some(
+                    (cell) => cell.worklogs.length > 0
+                  );
+                  return (
+                    <tr key={row.key} className="align-top">
+                      <td className="px-3 py-2 min-w-56">
+                        <div className="text-sm font-medium text-gray-900">
+                          {row.worklogTypeName}
+                        </div>
+                        <div className="text-xs text-gray-500 mb-2">
+                          {row.projectName || "No project"}
+                        </div>
+                        <input
+                          type="text"
+                          value={row.description}
+                          onChange={(e) =>
+                            updateRowDescription(row.key, e.target.value)
+                          }
+                          disabled={isWeekLocked}
+                          placeholder="Description for new entries"
+                          className={`w-full px-2 py-1 border rounded-md text-xs text-gray-900 ${
+                            rowErrors[row.key]
+                              ? "border-red-500"
+                              : "border-gray-300"
+                          }`}
+                        />
+                        {rowErrors[row.key] && (
+                          <p className="mt-1 text-xs text-red-600">
+                            {rowErrors[row.key]}
+                          </p>
+                        )}
+                      </td>
+                      {days.map((date) => {
+                        const cell = row.cells[date];
+                        const cellKey = getCellKey(row.key, date);
+                        const periodLock = findPeriodLock(date, periodLocks);
+                        const editable =
+                          !isWeekLocked && isCellEditable(cell, periodLock);
+                        const error = cellErrors[cellKey];
+                        return (
+                          <td key={date} className="px-2 py-2 text-center">
+                            <div className="relative">
+                              <input
+                                type="number"
+                                step={HOURS_INCREMENT}
+                                min="0"
+                                value={cell.value}
+                                disabled={!editable || isSaving}
+                                onChange={(e) =>
+                                  updateCell(row.key, date, e.target.value)
+                                }
+                                title={
+                                  editable
+                                    ? error
+                                    : isWeekLocked
+                                    ? "This week is locked"
+                                    : periodLock
+                                    ? getPeriodLockMessage(periodLock)
+                                    : "This day has entries that can only be changed from the worklog list"
+                                }
+                                className={`w-16 px-2 py-1 border rounded-md text-sm text-center text-gray-900 disabled:bg-gray-100 disabled:cursor-not-allowed ${
+                                  error ? "border-red-500" : "border-gray-300"
+                                }`}
+                              />
+                              {!editable && (
+                                <Lock className="absolute -top-1 -right-1 h-3 w-3 text-gray-400" />
+                              )}
+                            </div>
+                            {error && (
+                              <p className="mt-1 text-xs text-red-600 max-w-24 mx-auto">
+                                {error}
+                              </p>
+                            )}
+                          </td>
+                        );
+                      })}
+                      <td className="px-3 py-2 text-right text-sm font-medium text-gray-900">
+                        {formatHours(rowTotal(row))}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {!hasExisting && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRemoveRow(row.key)}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+              <tfoot className="bg-gray-50">
+                <tr>
+                  <td className="px-3 py-3 text-sm font-semibold text-gray-900">
+                    Daily Total
+                  </td>
+                  {days.map((date) => (
+                    <td
+                      key={date}
+                      className="px-2 py-3 text-center text-sm font-semibold text-gray-900"
+                    >
+                      {formatHours(dayTotal(date))}
+                    </td>
+                  ))}
+                  <td className="px-3 py-3 text-right text-sm font-bold text-gray-900">
+                    {formatHours(weekTotal)}
+                  </td>
+                  <td></td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )}
+      </Card>
+
+      {/* Add row */}
+      <Card>
+        <div className="flex flex-col sm:flex-row gap-4 items-end">
+          <div className="flex-1">
+            <Select
+              label="Work Type"
+              options={worklogTypeOptions}
+              value={newRowTypeId}
+              onChange={(e) => setNewRowTypeId(e.target.value)}
+            />
+          </div>
+          <div className="flex-1">
+            <Input
+              label="Project Name (Optional)"
+              value={newRowProject}
+              onChange={(e) => setNewRowProject(e.target.value)}
+              placeholder="e.g., Kron Worklog System"
+            />
+          </div>
+          <Button
+            variant="secondary"
+            onClick={handleAddRow}
+            disabled={isWeekLocked}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Row
+          </Button>
+        </div>
+      </Card>
+
+      {Object.keys(cellErrors).length > 0 && !isSaving && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
+          <AlertCircle className="h-5 w-5 text-red-600 mt-0.5 flex-shrink-0" />
+          <p className="text-sm text-red-700">
+            Some cells need attention. Check the highlighted cells for details.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,323 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { addMonths, format, parseISO, startOfMonth } from "date-fns";
+import { toast } from "react-hot-toast";
+import { ChevronLeft, ChevronRight, Edit, Lock, Plus } from "lucide-react";
+import { Card, CardHeader, CardTitle } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { periodLockApi, worklogApi } from "@/lib/api";
+import { PeriodLock, TimesheetSubmission, Worklog } from "@/lib/types";
+import { extractErrorMessage } from "@/lib/error-handler";
+import { formatHours } from "@/lib/hours";
+import {
+  CalendarDay,
+  buildCalendarWeeks,
+  getCalendarRange,
+} from "@/lib/calendar";
+import {
+  HOURS_PER_DAY,
+  calculateUtilizationRate,
+  getUtilizationBackgroundColor,
+} from "@/lib/date-utils";
+import { formatLocalized, formatLongDate } from "@/lib/date-settings";
+import { TicketText } from "./TicketText";
+import {
+  findLockedSubmission,
+  getLockedWeekMessage,
+  getMyTimesheetsCovering,
+  isWorklogEditable,
+} from "@/lib/timesheet-status";
+import { isEnteredOnBehalf } from "@/lib/on-behalf";
+import { findPeriodLock, getPeriodLockMessage } from "@/lib/period-locks";
+
+export function WorklogCalendar() {
+  const router = useRouter();
+  const [month, setMonth] = useState(startOfMonth(new Date()));
+  const [worklogs, setWorklogs] = useState<Worklog[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [periodLocks, setPeriodLocks] = useState<PeriodLock[]>([]);
+  const [submissions, setSubmissions] = useState<TimesheetSubmission[]>([]);
+
+  const weeks = buildCalendarWeeks(month, worklogs);
+  // Column headers follow the user's first day of week and locale
+  const weekdayLabels = (weeks[0] || []).map((day) =>
+    formatLocalized(day.date, "EEE")
+  );
+  const selectedDay = weeks.flat().find((day) => day.date === selectedDate);
+  const selectedLock =
+    selectedDay && findPeriodLock(selectedDay.date, periodLocks);
+  const selectedSubmission =
+    selectedDay && findLockedSubmission(selectedDay.date, submissions);
+
+  useEffect(() => {
+    loadPeriodLocks();
+  }, []);
+
+  useEffect(() => {
+    loadWorklogs();
+  }, [month]);
+
+  const loadPeriodLocks = async () => {
+    try {
+      setPeriodLocks(await periodLockApi.getPeriodLocks());
+    } catch (error) {
+      // The server refuses changes in closed periods anyway
+      console.error("Failed to load period locks:", error);
+    }
+  };
+
+  const loadWorklogs = async () => {
+    setIsLoading(true);
+    try {
+      const { startDate, endDate } = getCalendarRange(month);
+      const [data, monthSubmissions] = await Promise.all([
+        worklogApi.getMyWorklogs(startDate, endDate),
+        getMyTimesheetsCovering(startDate, endDate),
+      ]);
+      setWorklogs(data);
+      setSubmissions(monthSubmissions);
+    } catch (error) {
+      console.error("Failed to load worklogs:", error);
+      const errorMessage = extractErrorMessage(error);
+      toast.error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const refuseLockedChange = (lock: PeriodLock) => {
+    toast.error(getPeriodLockMessage(lock), { duration: 6000 });
+  };
+
+  const changeMonth = (amount: number) => {
+    setMonth(addMonths(month, amount));
+    setSelectedDate(null);
+  };
+
+  const getDayClassName = (day: CalendarDay) => {
+    if (!day.isCurrentMonth) return "bg-gray-50 text-gray-400 border-gray-200";
+    if (day.hours > 0) {
+      return `border-gray-200 ${getUtilizationBackgroundColor(
+        calculateUtilizationRate(day.hours, day.expectedHours || HOURS_PER_DAY)
+      )}`;
+    }
+    if (day.isMissing)
+      return "bg-white text-gray-900 border-red-300 border-dashed";
+    if (day.isWeekend) return "bg-gray-100 text-gray-500 border-gray-200";
+    if (day.holiday) return "bg-orange-50 text-gray-700 border-orange-200";
+    return "bg-white text-gray-900 border-gray-200";
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex justify-between items-center">
+          <CardTitle>{formatLocalized(month, "MMMM yyyy")}</CardTitle>
+          <div className="flex gap-2">
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => changeMonth(-1)}
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => {
+                setMonth(startOfMonth(new Date()));
+                setSelectedDate(null);
+              }}
+            >
+              Today
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => changeMonth(1)}
+            >
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        </CardHeader>
+
+        <div className={isLoading ? "opacity-50" : ""}>
+          <div className="grid grid-cols-7 gap-1 mb-1">
+            {weekdayLabels.map((label) => (
+              <div
+                key={label}
+                className="text-center text-xs font-medium text-gray-500 uppercase tracking-wider"
+              >
+                {label}
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-7 gap-1">
+            {weeks.flat().map((day) => (
+              <button
+                key={day.date}
+                type="button"
+                onClick={() => setSelectedDate(day.date)}
+                className={`h-20 p-2 rounded-lg border text-left flex flex-col justify-between transition-shadow hover:shadow ${getDayClassName(
+                  day
+                )} ${day.date === selectedDate ? "ring-2 ring-blue-500" : ""}`}
+              >
+                <span
+                  className={`text-sm ${
+                    day.isToday ? "font-bold underline" : "font-medium"
+                  }`}
+                >
+                  {format(parseISO(day.date), "d")}
+                </span>
+                {day.hours > 0 ? (
+                  <span className="text-sm font-semibold">
+                    {formatHours(day.hours)}h
+                  </span>
+                ) : day.isMissing ? (
+                  <span className="text-xs text-red-600">Missing</span>
+                ) : (
+                  day.holiday &&
+                  day.isCurrentMonth && (
+                    <span
+                      className="text-xs text-orange-700 truncate"
+                      title={day.holiday.name}
+                    >
+                      {day.holiday.halfDay ? "½ " : ""}
+                      {day.holiday.name}
+                    </span>
+                  )
+                )}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-4 mt-4 text-xs text-gray-600">
+          <span className="flex items-center gap-1">
+            <span className="w-3 h-3 rounded bg-green-100" /> 90%+ of{" "}
+            {HOURS_PER_DAY}h
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="w-3 h-3 rounded bg-blue-100" /> 70%+
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="w-3 h-3 rounded bg-yellow-100" /> 50%+
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="w-3 h-3 rounded bg-red-100" /> below 50%
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="w-3 h-3 rounded border border-dashed border-red-300" />{" "}
+            Missing
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="w-3 h-3 rounded bg-gray-100" /> Weekend
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="w-3 h-3 rounded bg-orange-50 border border-orange-200" />{" "}
+            Holiday
+          </span>
+        </div>
+      </Card>
+
+      {selectedDay && (
+        <Card>
+          <CardHeader className="flex justify-between items-center">
+            <div>
+              <CardTitle>{formatLongDate(selectedDay.date)}</CardTitle>
+              <p className="text-sm text-gray-600">
+                {formatHours(selectedDay.hours)} of{" "}
+                {formatHours(selectedDay.expectedHours)} hours logged
+              </p>
+              {selectedDay.holiday && (
+                <p className="text-sm text-orange-700">
+                  {selectedDay.holiday.name}
+                  {selectedDay.holiday.halfDay && " (half day)"}
+                </p>
+              )}
+              {selectedLock && (
+                <p
+                  className="flex items-center gap-1 text-sm text-gray-600"
+                  title={getPeriodLockMessage(selectedLock)}
+                >
+                  <Lock className="w-3 h-3" />
+                  Period closed
+                </p>
+              )}
+            </div>
+            {!selectedDay.isFuture && (
+              <Button
+                size="sm"
+                onClick={() =>
+                  selectedLock
+                    ? refuseLockedChange(selectedLock)
+                    : selectedSubmission
+                    ? toast.error(
+                        getLockedWeekMessage(selectedSubmission.status)
+                      )
+                    : router.push(`/worklogs/new?workDate=${selectedDay.date}`)
+                }
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Worklog
+              </Button>
+            )}
+          </CardHeader>
+
+          {selectedDay.worklogs.length === 0 ? (
+            <p className="text-gray-500">No worklogs for this day.</p>
+          ) : (
+            <div className="space-y-3">
+              {selectedDay.worklogs.map((worklog) => (
+                <div
+                  key={worklog.id}
+                  className="flex justify-between items-start border-l-4 border-blue-500 pl-4 py-2"
+                >
+                  <div>
+                    <div className="flex items-center gap-3 mb-1">
+                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                        {worklog.worklogTypeName}
+                      </span>
+                      <span className="text-sm font-medium text-gray-900">
+                        {formatHours(worklog.hoursWorked)} hours
+                      </span>
+                      {worklog.projectName && (
+                        <span className="text-sm text-gray-600">
+                          • {worklog.projectName}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-700">
+                      <TicketText text={worklog.description} />
+                    </p>
+                    {isEnteredOnBehalf(worklog) && (
+                      <p className="mt-1 text-xs text-gray-500">
+                        Entered by {worklog.enteredByName}
+                      </p>
+                    )}
+                  </div>
+                  {isWorklogEditable(worklog) && (
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={() =>
+                        selectedLock
+                          ? refuseLockedChange(selectedLock)
+                          : router.push(`/worklogs/${worklog.id}/edit`)
+                      }
+                    >
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+"use client";
+
+import { MessageSquare } from "lucide-react";
+import { Worklog } from "@/lib/types";
+
+interface WorklogCommentButtonProps {
+  worklog: Worklog;
+  isOpen: boolean;
+  onClick: () => void;
+}
+
+export function WorklogCommentButton({
+  worklog,
+  isOpen,
+  onClick,
+}: WorklogCommentButtonProps) {
+  const unread = worklog.unreadCommentCount || 0;
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={`relative inline-flex items-center gap-1 px-2 py-0.5 rounded-md text-xs font-medium ${
+        isOpen ? "bg-blue-100 text-blue-800" : "text-gray-600 hover:bg-gray-100"
+      }`}
+      title={unread > 0 ? `${unread} unread comment(s)` : "Comments"}
+    >
+      <MessageSquare className="w-4 h-4" />
+      {worklog.commentCount || 0}
+      {unread > 0 && (
+        <span className="absolute -top-1 -right-1 h-2.5 w-2.5 rounded-full bg-red-500" />
+      )}
+    </button>
+  );
+}
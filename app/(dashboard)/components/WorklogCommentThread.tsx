@@ -0,0 +1,141 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { toast } from "react-hot-toast";
+import { Flag, Send } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { worklogApi } from "@/lib/api";
+import { Worklog, WorklogComment } from "@/lib/types";
+import { extractErrorMessage } from "@/lib/error-handler";
+import { formatDisplayDate } from "@/lib/date-settings";
+
+interface WorklogCommentThreadProps {
+  worklog: Worklog;
+  // Team leads and directors reviewing someone else's entry
+  canFlag: boolean;
+  // Reports counts and flags that changed so the list can update its copy
+  onChange: (changes: Partial<Worklog>) => void;
+}
+
+export function WorklogCommentThread({
+  worklog,
+  canFlag,
+  onChange,
+}: WorklogCommentThreadProps) {
+  const [comments, setComments] = useState<WorklogComment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [body, setBody] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadComments();
+  }, [worklog.id]);
+
+  const loadComments = async () => {
+    setIsLoading(true);
+    try {
+      setComments(await worklogApi.getComments(worklog.id));
+      if (worklog.unreadCommentCount) {
+        await worklogApi.markCommentsRead(worklog.id);
+        onChange({ unreadCommentCount: 0 });
+      }
+    } catch (error) {
+      console.error("Failed to load comments:", error);
+      const errorMessage = extractErrorMessage(error);
+      toast.error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAddComment = async () => {
+    if (!body.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const comment = await worklogApi.addComment(worklog.id, body.trim());
+      setComments((prev) => [...prev, comment]);
+      setBody("");
+      onChange({ commentCount: comments.length + 1 });
+    } catch (error) {
+      console.error("Failed to add comment:", error);
+      const errorMessage = extractErrorMessage(error);
+      toast.error(errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleFlag = async () => {
+    const needsClarification = !worklog.needsClarification;
+    try {
+      await worklogApi.setNeedsClarification(worklog.id, needsClarification);
+      onChange({ needsClarification });
+      toast.success(
+        needsClarification ? "Marked as needing clarification" : "Flag cleared"
+      );
+    } catch (error) {
+      console.error("Failed to update clarification flag:", error);
+      const errorMessage = extractErrorMessage(error);
+      toast.error(errorMessage);
+    }
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200 space-y-3">
+      {isLoading ? (
+        <div className="h-10 bg-gray-100 rounded animate-pulse"></div>
+      ) : comments.length === 0 ? (
+        <p className="text-sm text-gray-500">No comments yet.</p>
+      ) : (
+        <ul className="space-y-3">
+          {comments.map((comment) => (
+            <li key={comment.id} className="text-sm">
+              <p className="text-gray-500">
+                <span className="font-medium text-gray-900">
+                  {comment.authorName}
+                </span>{" "}
+                • {formatDisplayDate(new Date(comment.createdAt))}{" "}
+                {format(new Date(comment.createdAt), "HH:mm")}
+              </p>
+              <p className="text-gray-700 whitespace-pre-wrap">
+                {comment.body}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        rows={2}
+        placeholder={
+          worklog.needsClarification && !canFlag
+            ? "Explain this entry..."
+            : "Write a comment..."
+        }
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      <div className="flex justify-end gap-2">
+        {canFlag && (
+          <Button variant="secondary" size="sm" onClick={handleToggleFlag}>
+            <Flag className="w-4 h-4 mr-2" />
+            {worklog.needsClarification
+              ? "Clear Clarification Flag"
+              : "Needs Clarification"}
+          </Button>
+        )}
+        <Button
+          size="sm"
+          onClick={handleAddComment}
+          disabled={isSaving || !body.trim()}
+        >
+          <Send className="w-4 h-4 mr-2" />
+          {isSaving ? "Sending..." : "Comment"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -5,30 +5,105 @@ import { useRouter } from "next/navigation";
 import { SubmitHandler, useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { format } from "date-fns";
+import { format, subMonths } from "date-fns";
 import { toast } from "react-hot-toast";
 import { Card } from "@/components/ui/Card";
 import { Button } from "@/components/ui/Button";
 import { Input } from "@/components/ui/Input";
 import { Select } from "@/components/ui/Select";
-import { worklogApi, worklogTypeApi } from "@/lib/api";
-import { WorklogCreateRequest, WorklogType } from "@/lib/types";
-import { extractErrorMessage, isValidationError } from "@/lib/error-handler";
-import { AlertCircle } from "lucide-react";
+import {
+  authApi,
+  employeeApi,
+  periodLockApi,
+  worklogApi,
+  worklogTypeApi,
+} from "@/lib/api";
+import {
+  Employee,
+  PeriodLock,
+  TimesheetSubmission,
+  User,
+  Worklog,
+  WorklogCreateRequest,
+  WorklogTemplate,
+  WorklogType,
+} from "@/lib/types";
+import {
+  extractErrorMessage,
+  isNetworkError,
+  isValidationError,
+} from "@/lib/error-handler";
+import {
+  WorklogDraftValues,
+  clearDraft,
+  getDraftKey,
+  loadDraft,
+  saveDraft,
+} from "@/lib/drafts";
+import { enqueueWorklogChange } from "@/lib/sync-queue";
+import { templateApi } from "@/lib/templates";
+import { ProjectSuggestion, buildProjectSuggestions } from "@/lib/projects";
+import { collectTags } from "@/lib/tags";
+import { loadWorklogHistory } from "@/lib/worklog-history";
+import { canLogOnBehalf, getEmployeeWorklogs } from "@/lib/on-behalf";
+import { createAbsenceEntries, isAbsenceType } from "@/lib/absence";
+import { getWorkingDays } from "@/lib/date-utils";
+import {
+  DAILY_CAP_POLICY,
+  HOURS_INCREMENT,
+  MAX_HOURS_PER_DAY,
+  formatHours,
+  getRemainingDailyHours,
+  sumHours,
+  validateHours,
+} from "@/lib/hours";
+import { formatDisplayDate, formatLongDate } from "@/lib/date-settings";
+import {
+  findPeriodLock,
+  getLocksInRange,
+  getPeriodLockMessage,
+} from "@/lib/period-locks";
+import {
+  findLockedSubmission,
+  getLockedWeekMessage,
+  getMyTimesheetsCovering,
+  isLockedStatus,
+  isWorklogEditable,
+} from "@/lib/timesheet-status";
+import {
+  AlertCircle,
+  AlertTriangle,
+  FileText,
+  History,
+  Lock,
+  UserCheck,
+} from "lucide-react";
+import Link from "next/link";
+import { ProjectNameInput } from "./ProjectNameInput";
+import { TagInput } from "./TagInput";
+import { LockedPeriodsNote } from "./LockedPeriodsNote";
+
+// Closed periods ending this many months ago are still listed under the date
+const LOCK_NOTE_MONTHS = 3;
 
 const worklogSchema = z.object({
+  // Empty means the current user
+  employeeId: z.string().optional(),
   worklogTypeId: z.string().min(1, "Please select a work type"),
   workDate: z.string().min(1, "Please select a date"),
+  // Only used in date-range mode for absence types
+  endDate: z.string().optional(),
   hoursWorked: z
     .string()
     .min(1, "Hours worked is required")
-    .refine(
-      (val) => !isNaN(Number(val)) && Number(val) > 0 && Number(val) <= 8,
-      {
-        message: "Hours must be between 1 and 8",
+    .superRefine((val, ctx) => {
+      const hoursError = validateHours(Number(val));
+      if (hoursError) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: hoursError });
       }
-    ),
+    }),
   projectName: z.string().optional(),
+  tags: z.array(z.string()).optional(),
   description: z.string().min(10, "Description must be at least 10 characters"),
 });
 
@@ -36,33 +111,226 @@ type WorklogFormData = z.infer<typeof worklogSchema>;
 
 interface WorklogFormProps {
   worklog?: any;
+  // Pre-filled values for a new worklog (ignored when editing)
+  initialValues?: Partial<WorklogCreateRequest>;
+  onSaved?: (worklog: Worklog) => void;
+  // Called instead of onSaved when the change was queued to be sent once online
+  onQueued?: () => void;
+  // Replaces the default return to /worklogs once the form is done
+  onDone?: () => void;
 }
 
-export function WorklogForm({ worklog }: WorklogFormProps) {
+export function WorklogForm({
+  worklog,
+  initialValues,
+  onSaved,
+  onQueued,
+  onDone,
+}: WorklogFormProps) {
   const router = useRouter();
   const [isLoading, setIsLoading] = useState(false);
   const [worklogTypes, setWorklogTypes] = useState<WorklogType[]>([]);
   const [apiError, setApiError] = useState<string | null>(null);
+  const [templates, setTemplates] = useState<WorklogTemplate[]>([]);
+  const [projectSuggestions, setProjectSuggestions] = useState<
+    ProjectSuggestion[]
+  >([]);
+  const [tagSuggestions, setTagSuggestions] = useState<string[]>([]);
+  const [periodLocks, setPeriodLocks] = useState<PeriodLock[]>([]);
+  // The user's submissions for the week of the selected date
+  const [submissions, setSubmissions] = useState<TimesheetSubmission[]>([]);
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  // Employees a team lead or director can log for
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  // When the form was filled from a saved draft, the time it was last saved
+  const [restoredDraftAt, setRestoredDraftAt] = useState<number | null>(null);
+  // Hours of the user's other worklogs on the selected date (null while unknown)
+  const [otherHoursForDay, setOtherHoursForDay] = useState<number | null>(null);
+  const [isRangeMode, setIsRangeMode] = useState(false);
+  // Range entries awaiting confirmation from the summary
+  const [pendingRange, setPendingRange] = useState<{
+    payload: Omit<WorklogCreateRequest, "workDate">;
+    workDates: string[];
+  } | null>(null);
+
+  const draftKey = getDraftKey(
+    worklog?.id,
+    worklog ? undefined : initialValues
+  );
+
+  const defaultValues: WorklogFormData = {
+    employeeId:
+      (worklog?.employeeId ?? initialValues?.employeeId)?.toString() || "",
+    worklogTypeId:
+      (worklog?.worklogTypeId ?? initialValues?.worklogTypeId)?.toString() ||
+      "",
+    workDate:
+      worklog?.workDate ||
+      initialValues?.workDate ||
+      format(new Date(), "yyyy-MM-dd"),
+    endDate: "",
+    hoursWorked:
+      (worklog?.hoursWorked ?? initialValues?.hoursWorked)?.toString() || "",
+    projectName: worklog?.projectName || initialValues?.projectName || "",
+    tags: worklog?.tags || initialValues?.tags || [],
+    description: worklog?.description || initialValues?.description || "",
+  };
 
   const {
     register,
     handleSubmit,
+    setValue,
+    watch,
+    reset,
     formState: { errors },
   } = useForm<WorklogFormData>({
     resolver: zodResolver(worklogSchema),
-    defaultValues: {
-      worklogTypeId: worklog?.worklogTypeId?.toString() || "",
-      workDate: worklog?.workDate || format(new Date(), "yyyy-MM-dd"),
-      hoursWorked: worklog?.hoursWorked?.toString() || "",
-      projectName: worklog?.projectName || "",
-      description: worklog?.description || "",
-    },
+    defaultValues,
   });
 
   useEffect(() => {
     loadWorklogTypes();
+    loadPeriodLocks();
+    loadUserData();
   }, []);
 
+  // Keep what has been typed so it survives a session expiry or lost connection.
+  // Drafts belong to the user, so nothing is kept until they are known.
+  useEffect(() => {
+    if (!currentUser) return;
+    const subscription = watch((values) =>
+      saveDraft(currentUser.id, draftKey, values as WorklogDraftValues)
+    );
+    return () => subscription.unsubscribe();
+  }, [watch, draftKey, currentUser]);
+
+  const restoreDraft = (user: User) => {
+    const draft = loadDraft(user.id, draftKey);
+    if (draft) {
+      // Older drafts may still carry an employee; the form decides who it is for
+      reset({
+        ...defaultValues,
+        ...draft.values,
+        employeeId: defaultValues.employeeId,
+      });
+      setRestoredDraftAt(draft.savedAt);
+    }
+  };
+
+  const discardDraft = () => {
+    reset(defaultValues);
+    // After the reset, which the autosave would otherwise store as a draft
+    clearStoredDraft();
+    setRestoredDraftAt(null);
+  };
+
+  const clearStoredDraft = () => {
+    if (currentUser) {
+      clearDraft(currentUser.id, draftKey);
+    }
+  };
+
+  const workDate = watch("workDate");
+  const selectedEmployeeId = Number(watch("employeeId"));
+  // Set when the entry is for someone other than the current user
+  const onBehalfEmployeeId =
+    currentUser && selectedEmployeeId && selectedEmployeeId !== currentUser.id
+      ? selectedEmployeeId
+      : null;
+  const onBehalfName = onBehalfEmployeeId
+    ? worklog?.employeeName ||
+      employees.find((e) => e.id === onBehalfEmployeeId)?.fullName
+    : null;
+  const hoursWorked = Number(watch("hoursWorked"));
+  const selectedType = worklogTypes.find(
+    (type) => type.id === Number(watch("worklogTypeId"))
+  );
+
+  // Absence types can be logged for a whole date range at once
+  const canUseRange = !worklog && isAbsenceType(selectedType);
+  const isRangeActive = canUseRange && isRangeMode;
+
+  useEffect(() => {
+    if (workDate) {
+      loadOtherHoursForDay(workDate);
+    }
+  }, [workDate, onBehalfEmployeeId]);
+
+  useEffect(() => {
+    // Only the user's own weeks can be looked up; the server checks the others
+    if (workDate && currentUser && !onBehalfEmployeeId) {
+      loadSubmissions(workDate);
+    } else {
+      setSubmissions([]);
+    }
+  }, [workDate, currentUser, onBehalfEmployeeId]);
+
+  const loadSubmissions = async (date: string) => {
+    try {
+      setSubmissions(await getMyTimesheetsCovering(date, date));
+    } catch (error) {
+      // The server refuses changes in submitted weeks anyway
+      console.error("Failed to load timesheet submissions:", error);
+    }
+  };
+
+  const loadOtherHoursForDay = async (date: string) => {
+    setOtherHoursForDay(null);
+    try {
+      // The daily cap applies to the employee the entry is for
+      const dayWorklogs =
+        currentUser && onBehalfEmployeeId
+          ? await getEmployeeWorklogs(
+              currentUser,
+              onBehalfEmployeeId,
+              date,
+              date
+            )
+          : await worklogApi.getMyWorklogs(date, date);
+      // The entry being edited is replaced, not added to
+      setOtherHoursForDay(
+        sumHours(dayWorklogs.filter((w) => w.id !== worklog?.id))
+      );
+    } catch (error) {
+      // The server still validates on save, so just skip the live check
+      console.error("Failed to load worklogs for the day:", error);
+    }
+  };
+
+  // An entry in a closed period can neither be moved out of it nor into another one
+  const periodLock =
+    (worklog && findPeriodLock(worklog.workDate, periodLocks)) ||
+    (!isRangeActive && workDate
+      ? findPeriodLock(workDate, periodLocks)
+      : undefined);
+  // Submitted and approved weeks are read-only: an entry can neither be changed
+  // in one nor be added or moved into one
+  const lockedSubmission =
+    !isRangeActive && workDate
+      ? findLockedSubmission(workDate, submissions)
+      : undefined;
+  const weekLockMessage =
+    worklog && !isWorklogEditable(worklog)
+      ? isLockedStatus(worklog.timesheetStatus)
+        ? getLockedWeekMessage(worklog.timesheetStatus)
+        : "This worklog can no longer be edited."
+      : lockedSubmission
+      ? getLockedWeekMessage(lockedSubmission.status)
+      : null;
+  const today = format(new Date(), "yyyy-MM-dd");
+  const recentLocks = getLocksInRange(
+    format(subMonths(new Date(), LOCK_NOTE_MONTHS), "yyyy-MM-dd"),
+    today,
+    periodLocks
+  );
+
+  const remainingDailyHours =
+    otherHoursForDay === null
+      ? null
+      : getRemainingDailyHours(otherHoursForDay, hoursWorked);
+  const exceedsDailyCap =
+    remainingDailyHours !== null && remainingDailyHours < 0;
+
   const loadWorklogTypes = async () => {
     try {
       const types = await worklogTypeApi.getActiveTypes();
@@ -73,32 +341,151 @@ export function WorklogForm({ worklog }: WorklogFormProps) {
     }
   };
 
+  const loadPeriodLocks = async () => {
+    try {
+      setPeriodLocks(await periodLockApi.getPeriodLocks());
+    } catch (error) {
+      // The server refuses changes in closed periods anyway
+      console.error("Failed to load period locks:", error);
+    }
+  };
+
+  const loadUserData = async () => {
+    let user: User;
+    try {
+      user = await authApi.getCurrentUser();
+    } catch (error) {
+      console.error("Failed to load current user:", error);
+      return;
+    }
+    restoreDraft(user);
+    setCurrentUser(user);
+
+    if (!worklog) {
+      loadTemplates(user);
+      if (canLogOnBehalf(user)) {
+        loadEmployees();
+      }
+    }
+    loadHistory(user);
+  };
+
+  const loadEmployees = async () => {
+    try {
+      setEmployees(await employeeApi.getVisibleEmployees());
+    } catch (error) {
+      // Without the list the form still logs for the user themselves
+      console.error("Failed to load employees:", error);
+    }
+  };
+
+  const loadTemplates = async (user: User) => {
+    try {
+      setTemplates(await templateApi.getTemplates(user.id));
+    } catch (error) {
+      // Templates are a convenience; the form works without them
+      console.error("Failed to load templates:", error);
+    }
+  };
+
+  const loadHistory = async (user: User) => {
+    try {
+      const history = await loadWorklogHistory(user);
+      setProjectSuggestions(buildProjectSuggestions(history));
+      setTagSuggestions(collectTags(history));
+    } catch (error) {
+      // Without history the project and tag fields are plain free text
+      console.error("Failed to load worklog history:", error);
+    }
+  };
+
+  const applyTemplate = (template: WorklogTemplate) => {
+    const options = { shouldValidate: true, shouldDirty: true };
+    setValue("worklogTypeId", template.worklogTypeId.toString(), options);
+    setValue("projectName", template.projectName, options);
+    setValue("hoursWorked", template.defaultHours.toString(), options);
+    setValue("description", template.description, options);
+  };
+
+  const finish = () => {
+    if (onDone) {
+      onDone();
+      return;
+    }
+    // Entries made for a report are checked on that employee's page
+    router.push(
+      onBehalfEmployeeId ? `/employees/${onBehalfEmployeeId}` : "/worklogs"
+    );
+    router.refresh();
+  };
+
   const onSubmit: SubmitHandler<WorklogFormData> = async (data) => {
+    if (isRangeActive) {
+      await prepareRange(data);
+      return;
+    }
+
+    if (periodLock) {
+      setApiError(getPeriodLockMessage(periodLock));
+      return;
+    }
+
+    if (weekLockMessage) {
+      setApiError(weekLockMessage);
+      return;
+    }
+
+    if (exceedsDailyCap && DAILY_CAP_POLICY === "block") {
+      setApiError(
+        `This entry would bring the day to more than ${formatHours(
+          MAX_HOURS_PER_DAY
+        )} hours.`
+      );
+      return;
+    }
+
     setIsLoading(true);
     setApiError(null); // Clear previous errors
 
-    try {
-      const payload: WorklogCreateRequest = {
-        worklogTypeId: Number(data.worklogTypeId),
-        workDate: data.workDate,
-        hoursWorked: Number(data.hoursWorked),
-        projectName: data.projectName || "",
-        description: data.description,
-      };
+    const payload: WorklogCreateRequest = {
+      employeeId: onBehalfEmployeeId ?? undefined,
+      worklogTypeId: Number(data.worklogTypeId),
+      workDate: data.workDate,
+      hoursWorked: Number(data.hoursWorked),
+      projectName: data.projectName || "",
+      description: data.description,
+      tags: data.tags || [],
+    };
 
+    try {
       if (worklog) {
-        await worklogApi.updateWorklog(worklog.id, payload);
+        const updated = await worklogApi.updateWorklog(worklog.id, payload);
         toast.success("Worklog updated successfully");
+        onSaved?.(updated);
       } else {
-        await worklogApi.createWorklog(payload);
+        const created = await worklogApi.createWorklog(payload);
         toast.success("Worklog created successfully");
+        onSaved?.(created);
       }
 
-      router.push("/worklogs");
-      router.refresh();
+      clearStoredDraft();
+      finish();
     } catch (error: any) {
       console.error("Failed to save worklog:", error);
 
+      // Save it later, in order, once the connection is back. The queue is
+      // per user, so without a known user the error is shown instead.
+      if (isNetworkError(error) && currentUser) {
+        enqueueWorklogChange(currentUser.id, worklog?.id ?? null, payload);
+        onQueued?.();
+        clearStoredDraft();
+        toast.success(
+          "You are offline. The worklog will be saved when the connection is back."
+        );
+        finish();
+        return;
+      }
+
       const errorMessage = extractErrorMessage(error);
       setApiError(errorMessage);
 
@@ -117,6 +504,112 @@ export function WorklogForm({ worklog }: WorklogFormProps) {
     }
   };
 
+  const prepareRange = async (data: WorklogFormData) => {
+    setApiError(null);
+
+    if (!data.endDate) {
+      setApiError("Please select an end date for the range.");
+      return;
+    }
+    if (data.endDate < data.workDate) {
+      setApiError("The end date must be on or after the start date.");
+      return;
+    }
+
+    const workDates = getWorkingDays(data.workDate, data.endDate);
+    if (workDates.length === 0) {
+      setApiError("The selected range has no working days.");
+      return;
+    }
+
+    const rangeLock = workDates
+      .map((date) => findPeriodLock(date, periodLocks))
+      .find(Boolean);
+    if (rangeLock) {
+      setApiError(getPeriodLockMessage(rangeLock));
+      return;
+    }
+
+    if (!onBehalfEmployeeId) {
+      try {
+        const rangeSubmissions = await getMyTimesheetsCovering(
+          data.workDate,
+          data.endDate
+        );
+        const lockedWeek = workDates
+          .map((date) => findLockedSubmission(date, rangeSubmissions))
+          .find(Boolean);
+        if (lockedWeek) {
+          setApiError(getLockedWeekMessage(lockedWeek.status));
+          return;
+        }
+      } catch (error) {
+        // The server refuses entries in submitted weeks anyway
+        console.error("Failed to load timesheet submissions:", error);
+      }
+    }
+
+    setPendingRange({
+      payload: {
+        employeeId: onBehalfEmployeeId ?? undefined,
+        worklogTypeId: Number(data.worklogTypeId),
+        hoursWorked: Number(data.hoursWorked),
+        projectName: data.projectName || "",
+        description: data.description,
+        tags: data.tags || [],
+      },
+      workDates,
+    });
+  };
+
+  const handleConfirmRange = async () => {
+    if (!pendingRange) return;
+
+    setIsLoading(true);
+    setApiError(null);
+    try {
+      const result = await createAbsenceEntries(
+        pendingRange.payload,
+        pendingRange.workDates
+      );
+
+      if (!result.error) {
+        toast.success(`Created ${result.created.length} worklogs`);
+        result.created.forEach((created) => onSaved?.(created));
+        clearStoredDraft();
+        finish();
+        return;
+      }
+
+      const failedDay = formatDisplayDate(result.failedDate!);
+      setApiError(
+        result.rolledBack
+          ? `Could not create the entry for ${failedDay} (${result.error}). No entries were saved.`
+          : `Could not create the entry for ${failedDay} (${result.error}). ${result.created.length} entries created before the failure could not be removed; please review them in My Worklogs.`
+      );
+      toast.error("Failed to save the date range");
+      setPendingRange(null);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // The user first, then the people they can log for
+  const employeeOptions = currentUser
+    ? [
+        {
+          value: currentUser.id,
+          label: `${currentUser.firstName} ${currentUser.lastName} (me)`,
+        },
+        ...employees
+          .filter((employee) => employee.id !== currentUser.id)
+          .map((employee) => ({
+            value: employee.id,
+            label: employee.fullName,
+          })),
+      ]
+    : [];
+
   const worklogTypeOptions = worklogTypes.map((type) => ({
     value: type.id,
     label: type.name,
@@ -138,6 +631,98 @@ export function WorklogForm({ worklog }: WorklogFormProps) {
           </div>
         )}
 
+        {restoredDraftAt && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 flex items-start space-x-3">
+            <History className="h-5 w-5 text-blue-600 mt-0.5 flex-shrink-0" />
+            <div className="flex-1 text-sm text-blue-900">
+              Restored your unsaved changes from{" "}
+              {formatDisplayDate(new Date(restoredDraftAt))}{" "}
+              {format(restoredDraftAt, "HH:mm")}.
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={discardDraft}
+            >
+              Discard
+            </Button>
+          </div>
+        )}
+
+        {periodLock && (
+          <div className="bg-gray-50 border border-gray-300 rounded-lg p-4 flex items-start space-x-3">
+            <Lock className="h-5 w-5 text-gray-600 mt-0.5 flex-shrink-0" />
+            <p className="text-sm text-gray-900">
+              {getPeriodLockMessage(periodLock)}
+            </p>
+          </div>
+        )}
+
+        {weekLockMessage && !periodLock && (
+          <div className="bg-gray-50 border border-gray-300 rounded-lg p-4 flex items-start space-x-3">
+            <Lock className="h-5 w-5 text-gray-600 mt-0.5 flex-shrink-0" />
+            <p className="text-sm text-gray-900">{weekLockMessage}</p>
+          </div>
+        )}
+
+        {onBehalfName && (
+          <div className="bg-purple-50 border border-purple-200 rounded-lg p-4 flex items-start space-x-3">
+            <UserCheck className="h-5 w-5 text-purple-600 mt-0.5 flex-shrink-0" />
+            <p className="text-sm text-purple-900">
+              {worklog ? "Correcting" : "Logging"} work for{" "}
+              <strong>{onBehalfName}</strong>. The entry will be marked as
+              entered by you.
+            </p>
+          </div>
+        )}
+
+        {!worklog && employees.length > 0 && (
+          <Select
+            label="Employee"
+            options={employeeOptions}
+            {...register("employeeId")}
+            value={watch("employeeId") || currentUser?.id}
+          />
+        )}
+
+        {!worklog && (
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <span className="text-sm font-medium text-gray-900">
+                Templates
+              </span>
+              <Link
+                href="/worklogs/templates"
+                className="text-sm text-blue-600 hover:text-blue-900"
+              >
+                Manage templates
+              </Link>
+            </div>
+            {templates.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No templates yet. Save recurring entries as templates to fill
+                this form in one click.
+              </p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {templates.map((template) => (
+                  <Button
+                    key={template.id}
+                    type="button"
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => applyTemplate(template)}
+                  >
+                    <FileText className="w-4 h-4 mr-1" />
+                    {template.name}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <Select
             label="Work Type"
@@ -146,33 +731,128 @@ export function WorklogForm({ worklog }: WorklogFormProps) {
             error={errors.worklogTypeId?.message}
           />
 
-          <Input
-            label="Date"
-            type="date"
-            {...register("workDate")}
-            error={errors.workDate?.message}
-            max={format(new Date(), "yyyy-MM-dd")}
-          />
+          <div>
+            <Input
+              label={isRangeActive ? "Start Date" : "Date"}
+              type="date"
+              {...register("workDate")}
+              error={errors.workDate?.message}
+              max={today}
+            />
+            <LockedPeriodsNote locks={recentLocks} />
+          </div>
+
+          {isRangeActive && (
+            <Input
+              label="End Date"
+              type="date"
+              {...register("endDate")}
+              error={errors.endDate?.message}
+              min={workDate}
+              max={today}
+            />
+          )}
 
           <Input
             label="Hours Worked"
             type="number"
-            step="1"
-            min="1"
-            max="8"
+            step={HOURS_INCREMENT}
+            min={HOURS_INCREMENT}
+            max={MAX_HOURS_PER_DAY}
             {...register("hoursWorked")}
             error={errors.hoursWorked?.message}
-            placeholder="e.g., 8"
+            placeholder="e.g., 7.5"
           />
 
-          <Input
-            label="Project Name (Optional)"
-            {...register("projectName")}
+          <ProjectNameInput
+            registration={register("projectName")}
+            value={watch("projectName") || ""}
+            suggestions={projectSuggestions}
+            onSelect={(name) =>
+              setValue("projectName", name, {
+                shouldValidate: true,
+                shouldDirty: true,
+              })
+            }
             error={errors.projectName?.message}
-            placeholder="e.g., Kron Worklog System"
           />
         </div>
 
+        <TagInput
+          tags={watch("tags") || []}
+          suggestions={tagSuggestions}
+          onChange={(tags) => setValue("tags", tags, { shouldDirty: true })}
+        />
+
+        {canUseRange && (
+          <label className="flex items-center space-x-2 text-sm text-gray-900">
+            <input
+              type="checkbox"
+              checked={isRangeMode}
+              onChange={(e) => {
+                setIsRangeMode(e.target.checked);
+                setPendingRange(null);
+              }}
+              className="h-4 w-4 rounded border-gray-300"
+            />
+            <span>
+              Log a date range (one entry per working day, weekends skipped)
+            </span>
+          </label>
+        )}
+
+        {/* Daily capacity for the selected date */}
+        {!isRangeActive &&
+          otherHoursForDay !== null &&
+          remainingDailyHours !== null && (
+            <div
+              className={`rounded-lg p-4 flex items-start space-x-3 border ${
+                exceedsDailyCap
+                  ? DAILY_CAP_POLICY === "block"
+                    ? "bg-red-50 border-red-200"
+                    : "bg-yellow-50 border-yellow-200"
+                  : "bg-blue-50 border-blue-200"
+              }`}
+            >
+              {exceedsDailyCap && (
+                <AlertTriangle
+                  className={`h-5 w-5 mt-0.5 flex-shrink-0 ${
+                    DAILY_CAP_POLICY === "block"
+                      ? "text-red-600"
+                      : "text-yellow-600"
+                  }`}
+                />
+              )}
+              <div className="text-sm text-gray-900">
+                <p>
+                  <strong>{formatHours(otherHoursForDay)} hours</strong> already
+                  logged on this date.{" "}
+                  {exceedsDailyCap ? (
+                    <>
+                      This entry exceeds the daily maximum of{" "}
+                      {formatHours(MAX_HOURS_PER_DAY)} hours by{" "}
+                      <strong>{formatHours(-remainingDailyHours)} hours</strong>
+                      .
+                    </>
+                  ) : (
+                    <>
+                      <strong>{formatHours(remainingDailyHours)} hours</strong>{" "}
+                      remaining of the daily maximum of{" "}
+                      {formatHours(MAX_HOURS_PER_DAY)} hours.
+                    </>
+                  )}
+                </p>
+                {exceedsDailyCap && (
+                  <p className="mt-1">
+                    {DAILY_CAP_POLICY === "block"
+                      ? "Reduce the hours or adjust your other entries for this day to save."
+                      : "You can still save, but please double-check your entries for this day."}
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">
             Description
@@ -194,18 +874,79 @@ export function WorklogForm({ worklog }: WorklogFormProps) {
           )}
         </div>
 
+        {/* Summary of a date range before it is saved */}
+        {pendingRange && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+            <h3 className="text-sm font-medium text-blue-900">
+              {pendingRange.workDates.length} entries will be created
+            </h3>
+            <p className="text-sm text-blue-800 mt-1">
+              {selectedType?.name},{" "}
+              {formatHours(pendingRange.payload.hoursWorked)} hours each,
+              totalling{" "}
+              {formatHours(
+                pendingRange.payload.hoursWorked * pendingRange.workDates.length
+              )}{" "}
+              hours. If any entry fails, the ones already created are removed
+              again.
+            </p>
+            <ul className="mt-2 grid grid-cols-2 md:grid-cols-3 gap-1 text-sm text-blue-900">
+              {pendingRange.workDates.map((date) => (
+                <li key={date}>{formatLongDate(date)}</li>
+              ))}
+            </ul>
+            <div className="flex gap-4 mt-4">
+              <Button
+                type="button"
+                onClick={handleConfirmRange}
+                disabled={isLoading}
+              >
+                {isLoading ? "Saving..." : "Confirm and Create"}
+              </Button>
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={() => setPendingRange(null)}
+                disabled={isLoading}
+              >
+                Back
+              </Button>
+            </div>
+          </div>
+        )}
+
         <div className="flex gap-4">
-          <Button type="submit" disabled={isLoading}>
+          <Button
+            type="submit"
+            disabled={
+              isLoading ||
+              !!pendingRange ||
+              !!periodLock ||
+              !!weekLockMessage ||
+              (!isRangeActive &&
+                exceedsDailyCap &&
+                DAILY_CAP_POLICY === "block")
+            }
+          >
             {isLoading
               ? "Saving..."
               : worklog
               ? "Update Worklog"
+              : isRangeActive
+              ? "Review Entries"
               : "Create Worklog"}
           </Button>
           <Button
             type="button"
             variant="secondary"
-            onClick={() => router.push("/worklogs")}
+            onClick={() => {
+              clearStoredDraft();
+              if (onDone) {
+                onDone();
+              } else {
+                router.push("/worklogs");
+              }
+            }}
           >
             Cancel
           </Button>
@@ -0,0 +1,80 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { toast } from "react-hot-toast";
+import { worklogApi } from "@/lib/api";
+import { WorklogRevision } from "@/lib/types";
+import { extractErrorMessage } from "@/lib/error-handler";
+import { formatDisplayDate } from "@/lib/date-settings";
+import { AUDIT_ACTION_LABELS, getAuditActionColor } from "@/lib/worklog-audit";
+import { RevisionChanges } from "./RevisionChanges";
+
+interface WorklogHistoryProps {
+  worklogId: number;
+}
+
+export function WorklogHistory({ worklogId }: WorklogHistoryProps) {
+  const [revisions, setRevisions] = useState<WorklogRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    loadHistory();
+  }, [worklogId]);
+
+  const loadHistory = async () => {
+    setIsLoading(true);
+    try {
+      const data = await worklogApi.getWorklogHistory(worklogId);
+      // Newest change first
+      setRevisions(
+        data.slice().sort((a, b) => b.changedAt.localeCompare(a.changedAt))
+      );
+    } catch (error) {
+      console.error("Failed to load worklog history:", error);
+      const errorMessage = extractErrorMessage(error);
+      toast.error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="h-10 bg-gray-100 rounded animate-pulse"></div>;
+  }
+
+  if (revisions.length === 0) {
+    return <p className="text-sm text-gray-500">No changes recorded yet.</p>;
+  }
+
+  return (
+    <ol className="space-y-4">
+      {revisions.map((revision) => (
+        <li key={revision.id} className="border-l-2 border-gray-200 pl-4">
+          <div className="flex flex-wrap items-center gap-2 mb-1 text-sm">
+            <span
+              className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${getAuditActionColor(
+                revision.action
+              )}`}
+            >
+              {AUDIT_ACTION_LABELS[revision.action]}
+            </span>
+            <span className="font-medium text-gray-900">
+              {revision.actorName}
+            </span>
+            {revision.actorId !== revision.employeeId && (
+              <span className="text-gray-600">
+                on behalf of {revision.employeeName}
+              </span>
+            )}
+            <span className="text-gray-500">
+              {formatDisplayDate(new Date(revision.changedAt))}{" "}
+              {format(new Date(revision.changedAt), "HH:mm")}
+            </span>
+          </div>
+          <RevisionChanges revision={revision} />
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import {
   Calendar,
   Clock,
@@ -10,44 +11,83 @@ import {
   Info,
 } from "lucide-react";
 import { Card, CardHeader, CardTitle } from "@/components/ui/Card";
-import { Button } from "@/components/ui/Button";
 import { DashboardStats } from "../components/DashboardStats";
-import { dashboardApi } from "@/lib/api";
-import { DashboardResponse } from "@/lib/types";
+import { MissingDaysCard } from "../components/MissingDaysCard";
+import { PeriodHolidaysNote } from "../components/PeriodHolidaysNote";
+import { PeriodPicker, PeriodSelection } from "../components/PeriodPicker";
+import { PeriodLockManager } from "../components/PeriodLockManager";
+import { dashboardApi, employeeApi, worklogApi } from "@/lib/api";
+import { DashboardResponse, Employee, Worklog } from "@/lib/types";
 import { toast } from "react-hot-toast";
 import { extractErrorMessage } from "@/lib/error-handler";
 import { canViewDepartmentData } from "@/lib/auth";
+import { formatHours } from "@/lib/hours";
+import { buildTagBreakdown } from "@/lib/tags";
 import {
-  calculateWorkingDays,
   calculateExpectedHours,
   calculateUtilizationRate,
   getUtilizationColor,
   getProgressBarColor,
-  getDateRangeForPeriod,
+  PeriodFilter,
+  resolvePeriodParams,
   formatPeriodDescription,
+  getMissingWorkingDays,
+  HOURS_PER_DAY,
 } from "@/lib/date-utils";
-
-type PeriodFilter = "week" | "month" | "custom";
+import {
+  calculateScheduledDays,
+  calculateScheduledHours,
+  getScheduledHours,
+} from "@/lib/work-schedule";
 
 export default function DashboardPage() {
+  const searchParams = useSearchParams();
+  const router = useRouter();
   const [isLoading, setIsLoading] = useState(true);
   const [dashboard, setDashboard] = useState<DashboardResponse | null>(null);
-  const [periodFilter, setPeriodFilter] = useState<PeriodFilter>("week");
+  // The user's own worklogs for the period, for the tag and missing-day views
+  const [myWorklogs, setMyWorklogs] = useState<Worklog[]>([]);
+
+  // Initialize date state from URL params or use the current week
+  const initialDates = resolvePeriodParams(
+    searchParams.get("startDate"),
+    searchParams.get("endDate"),
+    searchParams.get("period")
+  );
+  const [periodFilter, setPeriodFilter] = useState<PeriodFilter>(
+    initialDates.period
+  );
+  const [startDate, setStartDate] = useState(initialDates.startDate);
+  const [endDate, setEndDate] = useState(initialDates.endDate);
 
-  // Initialize with current week dates
-  const { startDate: initialStart, endDate: initialEnd } =
-    getDateRangeForPeriod("week");
-  const [startDate, setStartDate] = useState(initialStart);
-  const [endDate, setEndDate] = useState(initialEnd);
+  // Employees visible to the user, for their work schedules
+  const [scheduledEmployees, setScheduledEmployees] = useState<Employee[]>([]);
 
-  // Calculate working days and expected hours for the current period
-  const workingDaysInPeriod = calculateWorkingDays(startDate, endDate);
-  const expectedHoursInPeriod = calculateExpectedHours(startDate, endDate);
+  // Expected hours for someone on the standard full-time schedule
+  const standardExpectedHours = calculateExpectedHours(startDate, endDate);
+
+  useEffect(() => {
+    loadWorkSchedules();
+  }, []);
 
   useEffect(() => {
     loadDashboard();
+    loadMyWorklogs();
   }, [startDate, endDate]);
 
+  useEffect(() => {
+    const params = new URLSearchParams({
+      startDate,
+      endDate,
+      period: periodFilter,
+    });
+    const qs = `?${params.toString()}`;
+
+    if (window.location.search !== qs) {
+      router.replace(`/dashboard${qs}`, { scroll: false });
+    }
+  }, [startDate, endDate, periodFilter, router]);
+
   const loadDashboard = async () => {
     setIsLoading(true);
     try {
@@ -62,17 +102,39 @@ export default function DashboardPage() {
     }
   };
 
-  const handlePeriodChange = (period: PeriodFilter) => {
-    setPeriodFilter(period);
+  const loadMyWorklogs = async () => {
+    try {
+      setMyWorklogs(await worklogApi.getMyWorklogs(startDate, endDate));
+    } catch (error) {
+      // The rest of the dashboard does not depend on it
+      console.error("Failed to load worklogs:", error);
+      setMyWorklogs([]);
+    }
+  };
 
-    if (period !== "custom") {
-      const { startDate: newStart, endDate: newEnd } =
-        getDateRangeForPeriod(period);
-      setStartDate(newStart);
-      setEndDate(newEnd);
+  const loadWorkSchedules = async () => {
+    try {
+      const [me, visibleEmployees] = await Promise.all([
+        employeeApi.getMe(),
+        employeeApi.getVisibleEmployees(),
+      ]);
+      setScheduledEmployees([
+        me,
+        ...visibleEmployees.filter((employee) => employee.id !== me.id),
+      ]);
+    } catch (error) {
+      // Everyone is measured against the standard schedule instead
+      console.error("Failed to load work schedules:", error);
+      setScheduledEmployees([]);
     }
   };
 
+  const handlePeriodChange = (selection: PeriodSelection) => {
+    setPeriodFilter(selection.period);
+    setStartDate(selection.startDate);
+    setEndDate(selection.endDate);
+  };
+
   if (isLoading) {
     return (
       <div className="p-4 sm:p-6 lg:p-8">
@@ -105,12 +167,76 @@ export default function DashboardPage() {
   const isDepartmentView = canViewDepartmentData(currentUser);
   const viewLabel = isDepartmentView ? "Department" : "Team";
 
+  // Expected hours follow each person's own work schedule
+  const getWorkSchedules = (employeeId: number) =>
+    scheduledEmployees.find((employee) => employee.id === employeeId)
+      ?.workSchedules;
+  const getExpectedHours = (employeeId: number) =>
+    calculateScheduledHours(startDate, endDate, getWorkSchedules(employeeId));
+  // Falls back to the standard schedule when the group's members are unknown
+  const getGroupExpectedHours = (employeeIds: number[], size: number) =>
+    employeeIds.length > 0
+      ? employeeIds.reduce((sum, id) => sum + getExpectedHours(id), 0)
+      : standardExpectedHours * size;
+
+  const workingDaysInPeriod = calculateScheduledDays(
+    startDate,
+    endDate,
+    getWorkSchedules(currentUser.id)
+  );
+  const expectedHoursInPeriod = getExpectedHours(currentUser.id);
+
+  const teamExpectedHours = teamStats
+    ? getGroupExpectedHours(
+        (teamMembers || []).map((member) => member.id),
+        teamStats.teamSize
+      )
+    : 0;
+  const teamUtilizationRate = teamStats
+    ? calculateUtilizationRate(teamStats.totalTeamHours, teamExpectedHours)
+    : 0;
+
+  const getTeamLeadExpectedHours = (teamLeadId: number, teamSize: number) =>
+    getGroupExpectedHours(
+      scheduledEmployees
+        .filter((employee) => employee.teamLeadId === teamLeadId)
+        .map((employee) => employee.id),
+      teamSize
+    );
+
+  const departmentExpectedHours = departmentStats
+    ? getGroupExpectedHours(
+        scheduledEmployees
+          .filter(
+            (employee) => employee.departmentName === currentUser.department
+          )
+          .map((employee) => employee.id),
+        departmentStats.totalEmployees
+      )
+    : 0;
+  const departmentUtilizationRate = departmentStats
+    ? calculateUtilizationRate(
+        departmentStats.departmentTotalHours,
+        departmentExpectedHours
+      )
+    : 0;
+
   // Calculate personal utilization
   const personalUtilization = calculateUtilizationRate(
     periodSummary.totalHours,
     expectedHoursInPeriod
   );
 
+  const tagBreakdown = buildTagBreakdown(myWorklogs);
+  // Days off in the user's own schedule are not missing
+  const missingDays = getMissingWorkingDays(
+    startDate,
+    endDate,
+    myWorklogs
+  ).filter(
+    (day) => getScheduledHours(day, getWorkSchedules(currentUser.id)) > 0
+  );
+
   const periodDescription = formatPeriodDescription(
     periodSummary.startDate,
     periodSummary.endDate
@@ -133,41 +259,12 @@ export default function DashboardPage() {
 
       {/* Period Filter */}
       <div className="mb-6 flex flex-wrap gap-2">
-        <Button
-          variant={periodFilter === "week" ? "primary" : "secondary"}
-          size="sm"
-          onClick={() => handlePeriodChange("week")}
-        >
-          This Week
-        </Button>
-        <Button
-          variant={periodFilter === "month" ? "primary" : "secondary"}
-          size="sm"
-          onClick={() => handlePeriodChange("month")}
-        >
-          This Month
-        </Button>
-        <div className="flex gap-2 ml-auto text-gray-900">
-          <input
-            type="date"
-            value={startDate}
-            onChange={(e) => {
-              setStartDate(e.target.value);
-              setPeriodFilter("custom");
-            }}
-            className="px-3 py-1 border border-gray-300 rounded-md text-sm"
-          />
-          <span className="self-center text-gray-500">to</span>
-          <input
-            type="date"
-            value={endDate}
-            onChange={(e) => {
-              setEndDate(e.target.value);
-              setPeriodFilter("custom");
-            }}
-            className="px-3 py-1 border border-gray-300 rounded-md text-sm"
-          />
-        </div>
+        <PeriodPicker
+          period={periodFilter}
+          startDate={startDate}
+          endDate={endDate}
+          onChange={handlePeriodChange}
+        />
       </div>
 
       {/* Period Info Banner */}
@@ -180,12 +277,17 @@ export default function DashboardPage() {
               Showing data for{" "}
               <strong>{workingDaysInPeriod} working days</strong> (
               {periodDescription}
-              ), expecting <strong>{expectedHoursInPeriod} hours</strong>…
+              ), expecting{" "}
+              <strong>{formatHours(expectedHoursInPeriod)} hours</strong> under
+              your work schedule.
             </p>
+            <PeriodHolidaysNote startDate={startDate} endDate={endDate} />
           </div>
         </div>
       </div>
 
+      <MissingDaysCard missingDays={missingDays} />
+
       {/* Personal Summary */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 mb-8">
         <Card className="bg-gradient-to-br from-blue-50 to-blue-200 border-blue-200">
@@ -196,7 +298,7 @@ export default function DashboardPage() {
                 {periodSummary.totalHours}
               </p>
               <p className="text-xs text-blue-700 mt-1">
-                of {expectedHoursInPeriod} expected
+                of {formatHours(expectedHoursInPeriod)} expected
               </p>
             </div>
             <Clock className="h-8 w-8 text-blue-500" />
@@ -227,7 +329,14 @@ export default function DashboardPage() {
               <p className="text-2xl font-bold text-purple-900">
                 {periodSummary.averageHoursPerDay.toFixed(1)}
               </p>
-              <p className="text-xs text-purple-700 mt-1">Target: 8.0 hours</p>
+              <p className="text-xs text-purple-700 mt-1">
+                Target:{" "}
+                {(workingDaysInPeriod > 0
+                  ? expectedHoursInPeriod / workingDaysInPeriod
+                  : HOURS_PER_DAY
+                ).toFixed(1)}{" "}
+                hours
+              </p>
             </div>
             <TrendingUp className="h-8 w-8 text-purple-500" />
           </div>
@@ -301,6 +410,39 @@ export default function DashboardPage() {
         </Card>
       )}
 
+      {/* Tag Breakdown */}
+      {tagBreakdown.length > 0 && (
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle>Hours by Tag</CardTitle>
+          </CardHeader>
+          <div className="space-y-3">
+            {tagBreakdown.map((tag) => (
+              <div key={tag.tagName}>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="text-gray-900 font-medium">
+                    #{tag.tagName}
+                  </span>
+                  <span className="text-gray-600">
+                    {formatHours(tag.hours)} hours ({tag.percentage.toFixed(1)}
+                    %)
+                  </span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className="bg-indigo-600 h-2 rounded-full transition-all duration-300"
+                    style={{ width: `${tag.percentage}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-4">
+            Entries with several tags count towards each of them.
+          </p>
+        </Card>
+      )}
+
       {/* Team Lead View - Team Members Table */}
       {teamMembers && teamMembers.length > 0 && (
         <>
@@ -334,7 +476,7 @@ export default function DashboardPage() {
                       {teamStats.totalTeamHours}
                     </p>
                     <p className="text-xs text-green-700 mt-1">
-                      of {expectedHoursInPeriod * teamStats.teamSize} expected
+                      of {formatHours(teamExpectedHours)} expected
                     </p>
                   </div>
                   <Clock className="h-8 w-8 text-green-500" />
@@ -351,7 +493,12 @@ export default function DashboardPage() {
                       {teamStats.averageHoursPerMember.toFixed(1)}
                     </p>
                     <p className="text-xs text-purple-700 mt-1">
-                      of {expectedHoursInPeriod} expected
+                      of{" "}
+                      {(teamStats.teamSize > 0
+                        ? teamExpectedHours / teamStats.teamSize
+                        : 0
+                      ).toFixed(1)}{" "}
+                      expected
                     </p>
                   </div>
                   <TrendingUp className="h-8 w-8 text-purple-500" />
@@ -365,24 +512,21 @@ export default function DashboardPage() {
                       {viewLabel} Utilization
                     </p>
                     <p className="text-2xl font-bold text-orange-900">
-                      {teamStats.teamUtilizationRate.toFixed(1)}%
+                      {teamUtilizationRate.toFixed(1)}%
                     </p>
                     <div className="w-full bg-orange-200 rounded-full h-1.5 mt-2">
                       <div
                         className={`h-1.5 rounded-full transition-all duration-300 ${
-                          teamStats.teamUtilizationRate >= 90
+                          teamUtilizationRate >= 90
                             ? "bg-green-600"
-                            : teamStats.teamUtilizationRate >= 70
+                            : teamUtilizationRate >= 70
                             ? "bg-blue-600"
-                            : teamStats.teamUtilizationRate >= 50
+                            : teamUtilizationRate >= 50
                             ? "bg-yellow-600"
                             : "bg-red-600"
                         }`}
                         style={{
-                          width: `${Math.min(
-                            100,
-                            teamStats.teamUtilizationRate
-                          )}%`,
+                          width: `${Math.min(100, teamUtilizationRate)}%`,
                         }}
                       />
                     </div>
@@ -427,6 +571,11 @@ export default function DashboardPage() {
                 <tbody className="bg-white divide-y divide-gray-200">
                   {teamMembers.map((member) => {
                     const hasLoggedWork = member.totalHours > 0;
+                    const memberExpectedHours = getExpectedHours(member.id);
+                    const memberUtilization = calculateUtilizationRate(
+                      member.totalHours,
+                      memberExpectedHours
+                    );
 
                     return (
                       <tr key={member.id} className="hover:bg-blue-50">
@@ -439,34 +588,39 @@ export default function DashboardPage() {
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                           {member.totalHours}
                           <span className="text-xs text-gray-500 ml-1">
-                            / {expectedHoursInPeriod}
+                            / {formatHours(memberExpectedHours)}
                           </span>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                           {member.daysWorked}
                           <span className="text-xs text-gray-500 ml-1">
-                            / {workingDaysInPeriod}
+                            /{" "}
+                            {calculateScheduledDays(
+                              startDate,
+                              endDate,
+                              getWorkSchedules(member.id)
+                            )}
                           </span>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm">
                           <div className="flex items-center space-x-2">
                             <span
                               className={`font-medium ${getUtilizationColor(
-                                member.utilizationRate
+                                memberUtilization
                               )}`}
                             >
-                              {member.utilizationRate.toFixed(1)}%
+                              {memberUtilization.toFixed(1)}%
                             </span>
                             <div className="flex-1 w-20">
                               <div className="w-full bg-gray-200 rounded-full h-2">
                                 <div
                                   className={`h-2 rounded-full transition-all duration-300 ${getProgressBarColor(
-                                    member.utilizationRate
+                                    memberUtilization
                                   )}`}
                                   style={{
                                     width: `${Math.min(
                                       100,
-                                      member.utilizationRate
+                                      memberUtilization
                                     )}%`,
                                   }}
                                 />
@@ -583,6 +737,14 @@ export default function DashboardPage() {
                           100
                         ).toFixed(0)
                       : "0";
+                  const leadExpectedHours = getTeamLeadExpectedHours(
+                    lead.id,
+                    lead.teamSize
+                  );
+                  const leadUtilization = calculateUtilizationRate(
+                    lead.teamTotalHours,
+                    leadExpectedHours
+                  );
                   const complianceColor =
                     Number(complianceRate) >= 80
                       ? "text-green-600"
@@ -609,29 +771,26 @@ export default function DashboardPage() {
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                         {lead.teamTotalHours}
                         <span className="text-xs text-gray-500 ml-1">
-                          / {expectedHoursInPeriod * lead.teamSize}
+                          / {formatHours(leadExpectedHours)}
                         </span>
                       </td>
                       <td
                         className={`px-6 py-4 whitespace-nowrap text-sm ${getUtilizationColor(
-                          lead.teamUtilizationRate
+                          leadUtilization
                         )}`}
                       >
                         <div className="flex items-center space-x-2">
                           <span className="font-medium">
-                            {lead.teamUtilizationRate.toFixed(1)}%
+                            {leadUtilization.toFixed(1)}%
                           </span>
                           <div className="flex-1 w-20">
                             <div className="w-full bg-gray-200 rounded-full h-2">
                               <div
                                 className={`h-2 rounded-full transition-all duration-300 ${getProgressBarColor(
-                                  lead.teamUtilizationRate
+                                  leadUtilization
                                 )}`}
                                 style={{
-                                  width: `${Math.min(
-                                    100,
-                                    lead.teamUtilizationRate
-                                  )}%`,
+                                  width: `${Math.min(100, leadUtilization)}%`,
                                 }}
                               />
                             </div>
@@ -721,8 +880,7 @@ export default function DashboardPage() {
                   {departmentStats.departmentTotalHours}
                 </p>
                 <p className="text-xs text-purple-700 mt-1">
-                  of {expectedHoursInPeriod * departmentStats.totalEmployees}{" "}
-                  expected
+                  of {formatHours(departmentExpectedHours)} expected
                 </p>
               </div>
               <Clock className="h-8 w-8 text-purple-500" />
@@ -736,24 +894,21 @@ export default function DashboardPage() {
                   Dept. Utilization
                 </p>
                 <p className="text-2xl font-bold text-orange-900">
-                  {departmentStats.departmentUtilizationRate.toFixed(1)}%
+                  {departmentUtilizationRate.toFixed(1)}%
                 </p>
                 <div className="w-full bg-orange-200 rounded-full h-1.5 mt-2">
                   <div
                     className={`h-1.5 rounded-full transition-all duration-300 ${
-                      departmentStats.departmentUtilizationRate >= 90
+                      departmentUtilizationRate >= 90
                         ? "bg-green-600"
-                        : departmentStats.departmentUtilizationRate >= 70
+                        : departmentUtilizationRate >= 70
                         ? "bg-blue-600"
-                        : departmentStats.departmentUtilizationRate >= 50
+                        : departmentUtilizationRate >= 50
                         ? "bg-yellow-600"
                         : "bg-red-600"
                     }`}
                     style={{
-                      width: `${Math.min(
-                        100,
-                        departmentStats.departmentUtilizationRate
-                      )}%`,
+                      width: `${Math.min(100, departmentUtilizationRate)}%`,
                     }}
                   />
                 </div>
@@ -763,6 +918,13 @@ export default function DashboardPage() {
           </Card>
         </div>
       )}
+
+      {/* Director View - Period Close */}
+      {isDepartmentView && (
+        <div className="mt-8">
+          <PeriodLockManager />
+        </div>
+      )}
     </div>
   );
 }
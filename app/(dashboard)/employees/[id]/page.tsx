@@ -1,8 +1,7 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { Fragment, useState, useEffect } from "react";
 import { useParams, useRouter, useSearchParams } from "next/navigation";
-import { format, parseISO } from "date-fns";
 import {
   ArrowLeft,
   Calendar,
@@ -11,6 +10,10 @@ import {
   Mail,
   User,
   Info,
+  Flag,
+  History,
+  Edit,
+  Plus,
 } from "lucide-react";
 import { Card, CardHeader, CardTitle } from "@/components/ui/Card";
 import { Button } from "@/components/ui/Button";
@@ -25,17 +28,29 @@ import { toast } from "react-hot-toast";
 import { canViewDepartmentData, canViewTeamData } from "@/lib/auth";
 
 import { extractErrorMessage } from "@/lib/error-handler";
+import { formatHours, sumHours } from "@/lib/hours";
 import {
-  calculateWorkingDays,
-  calculateExpectedHours,
   calculateUtilizationRate,
   getUtilizationColor,
   getProgressBarColor,
-  getDateRangeForPeriod,
-  isValidDateString,
+  PeriodFilter,
+  resolvePeriodParams,
 } from "@/lib/date-utils";
-
-type PeriodFilter = "week" | "month" | "custom";
+import {
+  calculateScheduledDays,
+  calculateScheduledHours,
+  describeWorkSchedule,
+  getScheduleForDate,
+} from "@/lib/work-schedule";
+import { formatDisplayDate, formatLocalized } from "@/lib/date-settings";
+import { isWorklogEditable } from "@/lib/timesheet-status";
+import { isEnteredOnBehalf } from "@/lib/on-behalf";
+import { TicketText } from "../../components/TicketText";
+import { PeriodHolidaysNote } from "../../components/PeriodHolidaysNote";
+import { PeriodPicker, PeriodSelection } from "../../components/PeriodPicker";
+import { WorklogCommentButton } from "../../components/WorklogCommentButton";
+import { WorklogCommentThread } from "../../components/WorklogCommentThread";
+import { WorklogHistory } from "../../components/WorklogHistory";
 
 export default function EmployeeDetailPage() {
   const params = useParams();
@@ -44,33 +59,13 @@ export default function EmployeeDetailPage() {
   const employeeId = Number(params.id);
 
   // Initialize date state from URL params or use defaults
-  const getInitialDates = () => {
-    const urlStartDate = searchParams.get("startDate");
-    const urlEndDate = searchParams.get("endDate");
-    const urlPeriod = searchParams.get("period") as PeriodFilter | null;
-
-    // If we have valid dates from URL, use them
-    if (
-      urlStartDate &&
-      urlEndDate &&
-      isValidDateString(urlStartDate) &&
-      isValidDateString(urlEndDate)
-    ) {
-      return {
-        startDate: urlStartDate,
-        endDate: urlEndDate,
-        periodFilter: urlPeriod || "custom",
-      };
-    }
-
-    // Otherwise, default to current week
-    const { startDate, endDate } = getDateRangeForPeriod("week");
-    return { startDate, endDate, periodFilter: "week" };
-  };
-
-  const initialDates = getInitialDates();
+  const initialDates = resolvePeriodParams(
+    searchParams.get("startDate"),
+    searchParams.get("endDate"),
+    searchParams.get("period")
+  );
   const [periodFilter, setPeriodFilter] = useState<PeriodFilter>(
-    initialDates.periodFilter as PeriodFilter
+    initialDates.period
   );
   const [startDate, setStartDate] = useState(initialDates.startDate);
   const [endDate, setEndDate] = useState(initialDates.endDate);
@@ -80,10 +75,23 @@ export default function EmployeeDetailPage() {
   const [worklogs, setWorklogs] = useState<Worklog[]>([]);
   const [dashboard, setDashboard] = useState<DashboardResponse | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-
-  // Calculate working days and expected hours for the current period
-  const workingDaysInPeriod = calculateWorkingDays(startDate, endDate);
-  const expectedHoursInPeriod = calculateExpectedHours(startDate, endDate);
+  // Comment thread or change history open below a worklog row
+  const [openPanel, setOpenPanel] = useState<{
+    worklogId: number;
+    kind: "comments" | "history";
+  } | null>(null);
+
+  // Calculate working days and expected hours under the employee's own schedule
+  const workingDaysInPeriod = calculateScheduledDays(
+    startDate,
+    endDate,
+    employee?.workSchedules
+  );
+  const expectedHoursInPeriod = calculateScheduledHours(
+    startDate,
+    endDate,
+    employee?.workSchedules
+  );
 
   useEffect(() => {
     loadInitialData();
@@ -105,7 +113,7 @@ export default function EmployeeDetailPage() {
     const qs = `?${params.toString()}`;
 
     if (window.location.search !== qs) {
-      router.replace(`/employees/${employeeId}?${qs}`, { scroll: false });
+      router.replace(`/employees/${employeeId}${qs}`, { scroll: false });
     }
   }, [startDate, endDate, periodFilter, employeeId, router]);
 
@@ -198,15 +206,30 @@ export default function EmployeeDetailPage() {
     }
   };
 
-  const handlePeriodChange = (period: PeriodFilter) => {
-    setPeriodFilter(period);
+  const updateWorklog = (id: number, changes: Partial<Worklog>) => {
+    setWorklogs((prev) =>
+      prev.map((w) => (w.id === id ? { ...w, ...changes } : w))
+    );
+  };
 
-    if (period !== "custom") {
-      const { startDate: newStart, endDate: newEnd } =
-        getDateRangeForPeriod(period);
-      setStartDate(newStart);
-      setEndDate(newEnd);
-    }
+  const togglePanel = (worklogId: number, kind: "comments" | "history") => {
+    setOpenPanel(
+      openPanel?.worklogId === worklogId && openPanel.kind === kind
+        ? null
+        : { worklogId, kind }
+    );
+  };
+
+  // Leads review and correct their reports' entries; not their own
+  const canReviewWorklog = (worklog: Worklog) =>
+    !!currentUser &&
+    canViewTeamData(currentUser) &&
+    worklog.employeeId !== currentUser.id;
+
+  const handlePeriodChange = (selection: PeriodSelection) => {
+    setPeriodFilter(selection.period);
+    setStartDate(selection.startDate);
+    setEndDate(selection.endDate);
   };
 
   const handleBackNavigation = () => {
@@ -217,7 +240,7 @@ export default function EmployeeDetailPage() {
   };
 
   // Calculate statistics
-  const totalHours = worklogs.reduce((sum, w) => sum + w.hoursWorked, 0);
+  const totalHours = sumHours(worklogs);
   const daysWorked = new Set(worklogs.map((w) => w.workDate)).size;
   const averageHours = daysWorked > 0 ? totalHours / daysWorked : 0;
   const utilizationRate = calculateUtilizationRate(
@@ -277,6 +300,18 @@ export default function EmployeeDetailPage() {
               {employee.role} • {employee.grade}
             </p>
           </div>
+          {currentUser &&
+            canViewTeamData(currentUser) &&
+            employee.id !== currentUser.id && (
+              <Button
+                onClick={() =>
+                  router.push(`/worklogs/new?employeeId=${employee.id}`)
+                }
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Log Work for {employee.firstName}
+              </Button>
+            )}
         </div>
       </div>
 
@@ -315,49 +350,29 @@ export default function EmployeeDetailPage() {
               </div>
             </div>
           )}
+
+          <div className="flex items-center space-x-3">
+            <Clock className="h-5 w-5 text-gray-400" />
+            <div>
+              <p className="text-sm text-gray-900">Work Schedule</p>
+              <p className="font-medium text-gray-900">
+                {describeWorkSchedule(
+                  getScheduleForDate(employee.workSchedules, endDate)
+                )}
+              </p>
+            </div>
+          </div>
         </div>
       </Card>
 
       {/* Period Filter */}
       <div className="mb-6 flex flex-wrap gap-4">
-        <div className="flex gap-2">
-          <Button
-            variant={periodFilter === "week" ? "primary" : "secondary"}
-            size="sm"
-            onClick={() => handlePeriodChange("week")}
-          >
-            This Week
-          </Button>
-          <Button
-            variant={periodFilter === "month" ? "primary" : "secondary"}
-            size="sm"
-            onClick={() => handlePeriodChange("month")}
-          >
-            This Month
-          </Button>
-        </div>
-
-        <div className="flex gap-2 text-gray-900">
-          <input
-            type="date"
-            value={startDate}
-            onChange={(e) => {
-              setStartDate(e.target.value);
-              setPeriodFilter("custom");
-            }}
-            className="px-3 py-1 border border-gray-300 rounded-md text-sm"
-          />
-          <span className="self-center text-gray-500">to</span>
-          <input
-            type="date"
-            value={endDate}
-            onChange={(e) => {
-              setEndDate(e.target.value);
-              setPeriodFilter("custom");
-            }}
-            className="px-3 py-1 border border-gray-300 rounded-md text-sm"
-          />
-        </div>
+        <PeriodPicker
+          period={periodFilter}
+          startDate={startDate}
+          endDate={endDate}
+          onChange={handlePeriodChange}
+        />
       </div>
 
       {/* Period Info Banner */}
@@ -368,11 +383,15 @@ export default function EmployeeDetailPage() {
             <p className="font-medium">Performance Period</p>
             <p className="mt-1">
               Analyzing <strong>{workingDaysInPeriod} working days</strong> (
-              {format(parseISO(startDate), "MMM d")} -{" "}
-              {format(parseISO(endDate), "MMM d, yyyy")}), with{" "}
-              <strong>{expectedHoursInPeriod} expected hours</strong> at full
-              utilization.
+              {formatLocalized(startDate, "MMM d")} -{" "}
+              {formatDisplayDate(endDate)}), with{" "}
+              <strong>
+                {formatHours(expectedHoursInPeriod)} expected hours
+              </strong>{" "}
+              at full utilization under {employee.firstName}&apos;s work
+              schedule.
             </p>
+            <PeriodHolidaysNote startDate={startDate} endDate={endDate} />
           </div>
         </div>
       </div>
@@ -383,7 +402,9 @@ export default function EmployeeDetailPage() {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm font-medium text-blue-600">Total Hours</p>
-              <p className="text-2xl font-bold text-blue-900">{totalHours}</p>
+              <p className="text-2xl font-bold text-blue-900">
+                {formatHours(totalHours)}
+              </p>
               <p className="text-xs text-blue-700 mt-1">
                 of {expectedHoursInPeriod} expected
               </p>
@@ -462,7 +483,8 @@ export default function EmployeeDetailPage() {
                         {type}
                       </span>
                       <span className="text-sm text-gray-600">
-                        {data.hours} hours ({percentage.toFixed(1)}%)
+                        {formatHours(data.hours)} hours ({percentage.toFixed(1)}
+                        %)
                       </span>
                     </div>
                     <div className="w-full bg-gray-200 rounded-full h-2">
@@ -503,38 +525,122 @@ export default function EmployeeDetailPage() {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Description
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Activity
+                </th>
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
               {worklogs.length === 0 ? (
                 <tr>
                   <td
-                    colSpan={5}
+                    colSpan={6}
                     className="px-6 py-4 text-center text-sm text-gray-500"
                   >
                     No worklogs found for the selected period
                   </td>
                 </tr>
               ) : (
-                worklogs.map((worklog) => (
-                  <tr key={worklog.id} className="hover:bg-gray-50">
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {format(parseISO(worklog.workDate), "MMM dd, yyyy")}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {worklog.worklogTypeName}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {worklog.hoursWorked}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {worklog.projectName || "-"}
-                    </td>
-                    <td className="px-6 py-4 text-sm text-gray-900">
-                      {worklog.description || "-"}
-                    </td>
-                  </tr>
-                ))
+                worklogs.map((worklog) => {
+                  const panel =
+                    openPanel?.worklogId === worklog.id ? openPanel.kind : null;
+                  return (
+                    <Fragment key={worklog.id}>
+                      <tr className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {formatDisplayDate(worklog.workDate)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {worklog.worklogTypeName}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {formatHours(worklog.hoursWorked)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {worklog.projectName || "-"}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-900">
+                          {worklog.needsClarification && (
+                            <span className="inline-flex items-center px-2 py-0.5 mb-1 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+                              <Flag className="w-3 h-3 mr-1" />
+                              Needs clarification
+                            </span>
+                          )}
+                          <div>
+                            {worklog.description ? (
+                              <TicketText text={worklog.description} />
+                            ) : (
+                              "-"
+                            )}
+                          </div>
+                          {isEnteredOnBehalf(worklog) && (
+                            <p className="mt-1 text-xs text-gray-500">
+                              Entered by {worklog.enteredByName}
+                            </p>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          <div className="flex items-center gap-2">
+                            <WorklogCommentButton
+                              worklog={worklog}
+                              isOpen={panel === "comments"}
+                              onClick={() =>
+                                togglePanel(worklog.id, "comments")
+                              }
+                            />
+                            <button
+                              type="button"
+                              onClick={() => togglePanel(worklog.id, "history")}
+                              className={`inline-flex items-center px-2 py-0.5 rounded-md ${
+                                panel === "history"
+                                  ? "bg-blue-100 text-blue-800"
+                                  : "text-gray-600 hover:bg-gray-100"
+                              }`}
+                              title="Change history"
+                            >
+                              <History className="w-4 h-4" />
+                            </button>
+                            {canReviewWorklog(worklog) &&
+                              isWorklogEditable(worklog) && (
+                                <button
+                                  type="button"
+                                  onClick={() =>
+                                    router.push(`/worklogs/${worklog.id}/edit`)
+                                  }
+                                  className="inline-flex items-center px-2 py-0.5 rounded-md text-gray-600 hover:bg-gray-100"
+                                  title="Correct this entry"
+                                >
+                                  <Edit className="w-4 h-4" />
+                                </button>
+                              )}
+                          </div>
+                        </td>
+                      </tr>
+                      {panel === "comments" && (
+                        <tr>
+                          <td colSpan={6} className="px-6 pb-4">
+                            <WorklogCommentThread
+                              worklog={worklog}
+                              canFlag={canReviewWorklog(worklog)}
+                              onChange={(changes) =>
+                                updateWorklog(worklog.id, changes)
+                              }
+                            />
+                          </td>
+                        </tr>
+                      )}
+                      {panel === "history" && (
+                        <tr>
+                          <td colSpan={6} className="px-6 pb-4">
+                            <div className="mt-4 pt-4 border-t border-gray-200">
+                              <WorklogHistory worklogId={worklog.id} />
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })
               )}
             </tbody>
           </table>
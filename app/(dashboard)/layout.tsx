@@ -1,5 +1,6 @@
 import { Toaster } from "react-hot-toast";
 import { Navbar } from "./components/Navbar";
+import { DateSettingsProvider } from "./components/DateSettingsProvider";
 
 export default function DashboardLayout({
   children,
@@ -9,7 +10,9 @@ export default function DashboardLayout({
   return (
     <>
       <Navbar />
-      <main className="min-h-screen bg-gray-50">{children}</main>
+      <main className="min-h-screen bg-gray-50">
+        <DateSettingsProvider>{children}</DateSettingsProvider>
+      </main>
       <Toaster position="top-right" />
     </>
   );
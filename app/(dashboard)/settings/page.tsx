@@ -0,0 +1,111 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import { RotateCcw, Save } from "lucide-react";
+import { Card, CardHeader, CardTitle } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { Select } from "@/components/ui/Select";
+import {
+  DATE_FORMAT_OPTIONS,
+  DEFAULT_DATE_SETTINGS,
+  DateLocaleCode,
+  DateSettings,
+  LOCALE_OPTIONS,
+  WEEK_START_OPTIONS,
+  WeekStartsOn,
+  getDateLocale,
+} from "@/lib/date-settings";
+import { format } from "date-fns";
+import { useDateSettings } from "../components/DateSettingsProvider";
+
+export default function SettingsPage() {
+  const { settings: savedSettings, updateSettings } = useDateSettings();
+  const [settings, setSettings] = useState<DateSettings>(savedSettings);
+
+  // Preview with the unsaved settings rather than the stored ones
+  const previewDate = (pattern: string) =>
+    format(new Date(), pattern, { locale: getDateLocale(settings.locale) });
+
+  const handleSave = () => {
+    updateSettings(settings);
+    toast.success("Settings saved");
+  };
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-8 max-w-3xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Settings</h1>
+        <p className="text-gray-600">
+          Choose how dates and weeks are shown to you
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Dates &amp; Locale</CardTitle>
+        </CardHeader>
+        <div className="space-y-4">
+          <Select
+            label="First day of week"
+            options={WEEK_START_OPTIONS}
+            value={settings.weekStartsOn}
+            onChange={(e) =>
+              e.target.value &&
+              setSettings({
+                ...settings,
+                weekStartsOn: Number(e.target.value) as WeekStartsOn,
+              })
+            }
+          />
+          <Select
+            label="Language for dates"
+            options={LOCALE_OPTIONS}
+            value={settings.locale}
+            onChange={(e) =>
+              e.target.value &&
+              setSettings({
+                ...settings,
+                locale: e.target.value as DateLocaleCode,
+              })
+            }
+          />
+          <Select
+            label="Date format"
+            options={DATE_FORMAT_OPTIONS.map((pattern) => ({
+              value: pattern,
+              label: previewDate(pattern),
+            }))}
+            value={settings.dateFormat}
+            onChange={(e) =>
+              e.target.value &&
+              setSettings({ ...settings, dateFormat: e.target.value })
+            }
+          />
+
+          <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 text-sm text-gray-700">
+            Dates will look like{" "}
+            <strong>
+              {previewDate("EEEE")}, {previewDate(settings.dateFormat)}
+            </strong>
+            .
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <Button
+              variant="secondary"
+              onClick={() => setSettings(DEFAULT_DATE_SETTINGS)}
+            >
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Reset to Defaults
+            </Button>
+            <Button onClick={handleSave}>
+              <Save className="w-4 h-4 mr-2" />
+              Save
+            </Button>
+          </div>
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -10,7 +10,6 @@ import {
   Info,
 } from "lucide-react";
 import { Card, CardHeader, CardTitle } from "@/components/ui/Card";
-import { Button } from "@/components/ui/Button";
 import { Select } from "@/components/ui/Select";
 import { employeeApi, worklogApi, authApi } from "@/lib/api";
 import { Employee, Worklog, User } from "@/lib/types";
@@ -19,17 +18,30 @@ import { canViewDepartmentData } from "@/lib/auth";
 import Link from "next/link";
 import { useRouter, useSearchParams } from "next/navigation";
 import { extractErrorMessage } from "@/lib/error-handler";
+import { formatHours, sumHours } from "@/lib/hours";
+import { collectTags, filterWorklogsByTags, getWorklogTags } from "@/lib/tags";
 import {
   calculateWorkingDays,
   calculateExpectedHours,
   calculateUtilizationRate,
   getUtilizationColor,
   getProgressBarColor,
-  getDateRangeForPeriod,
-  isValidDateString,
+  PeriodFilter,
+  resolvePeriodParams,
+  HOURS_PER_DAY,
 } from "@/lib/date-utils";
-
-type PeriodFilter = "week" | "month" | "custom";
+import {
+  calculateScheduledDays,
+  calculateScheduledHours,
+  describeWorkSchedule,
+  getScheduleForDate,
+  hasStandardSchedule,
+} from "@/lib/work-schedule";
+import { TicketHoursCard } from "../components/TicketHoursCard";
+import { TagFilter } from "../components/TagFilter";
+import { PeriodHolidaysNote } from "../components/PeriodHolidaysNote";
+import { PeriodPicker, PeriodSelection } from "../components/PeriodPicker";
+import { PendingTimesheetsCard } from "../components/PendingTimesheetsCard";
 
 export default function TeamPage() {
   const searchParams = useSearchParams();
@@ -39,36 +51,17 @@ export default function TeamPage() {
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [worklogs, setWorklogs] = useState<Worklog[]>([]);
   const [selectedEmployee, setSelectedEmployee] = useState<string>("");
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
   // Initialize date state from URL params or use defaults
-  const getInitialDates = () => {
-    const urlStartDate = searchParams.get("startDate");
-    const urlEndDate = searchParams.get("endDate");
-    const urlPeriod = searchParams.get("period") as PeriodFilter | null;
-
-    // If we have valid dates from URL, use them
-    if (
-      urlStartDate &&
-      urlEndDate &&
-      isValidDateString(urlStartDate) &&
-      isValidDateString(urlEndDate)
-    ) {
-      return {
-        startDate: urlStartDate,
-        endDate: urlEndDate,
-        periodFilter: urlPeriod || "custom",
-      };
-    }
-
-    // Otherwise, default to current week
-    const { startDate, endDate } = getDateRangeForPeriod("week");
-    return { startDate, endDate, periodFilter: "week" };
-  };
-
-  const initialDates = getInitialDates();
+  const initialDates = resolvePeriodParams(
+    searchParams.get("startDate"),
+    searchParams.get("endDate"),
+    searchParams.get("period")
+  );
   const [periodFilter, setPeriodFilter] = useState<PeriodFilter>(
-    initialDates.periodFilter as PeriodFilter
+    initialDates.period
   );
   const [startDate, setStartDate] = useState(initialDates.startDate);
   const [endDate, setEndDate] = useState(initialDates.endDate);
@@ -152,37 +145,45 @@ export default function TeamPage() {
     }
   };
 
-  const handlePeriodChange = (period: PeriodFilter) => {
-    setPeriodFilter(period);
-
-    if (period !== "custom") {
-      const { startDate: newStart, endDate: newEnd } =
-        getDateRangeForPeriod(period);
-      setStartDate(newStart);
-      setEndDate(newEnd);
-    }
+  const handlePeriodChange = (selection: PeriodSelection) => {
+    setPeriodFilter(selection.period);
+    setStartDate(selection.startDate);
+    setEndDate(selection.endDate);
   };
 
+  const filteredWorklogs = filterWorklogsByTags(worklogs, selectedTags);
+
   const teamStats = employees.map((employee) => {
-    const employeeWorklogs = worklogs.filter(
+    const employeeWorklogs = filteredWorklogs.filter(
       (w) => w.employeeId === employee.id
     );
-    const totalHours = employeeWorklogs.reduce(
-      (sum, w) => sum + w.hoursWorked,
-      0
-    );
+    const totalHours = sumHours(employeeWorklogs);
     const daysWorked = new Set(employeeWorklogs.map((w) => w.workDate)).size;
 
-    // Calculate utilization rate based on actual working days
-    const utilizationRate = calculateUtilizationRate(
-      totalHours,
-      expectedHoursInPeriod
+    // Expectations follow the employee's own schedule (part-time, 4-day week...)
+    const expectedHours = calculateScheduledHours(
+      startDate,
+      endDate,
+      employee.workSchedules
     );
+    const scheduledDays = calculateScheduledDays(
+      startDate,
+      endDate,
+      employee.workSchedules
+    );
+    const utilizationRate = calculateUtilizationRate(totalHours, expectedHours);
 
     return {
       ...employee,
       totalHours,
       daysWorked,
+      expectedHours,
+      scheduledDays,
+      hasStandardSchedule: hasStandardSchedule(
+        startDate,
+        endDate,
+        employee.workSchedules
+      ),
       averageHours: daysWorked > 0 ? totalHours / daysWorked : 0,
       utilizationRate,
     };
@@ -192,16 +193,19 @@ export default function TeamPage() {
     (sum, stat) => sum + stat.totalHours,
     0
   );
+  const totalExpectedHours = teamStats.reduce(
+    (sum, stat) => sum + stat.expectedHours,
+    0
+  );
   const averageTeamHours =
     teamStats.length > 0 ? totalTeamHours / teamStats.length : 0;
+  const averageExpectedHours =
+    teamStats.length > 0 ? totalExpectedHours / teamStats.length : 0;
 
   // Calculate overall team utilization
   const teamUtilizationRate =
     teamStats.length > 0
-      ? calculateUtilizationRate(
-          totalTeamHours,
-          expectedHoursInPeriod * teamStats.length
-        )
+      ? calculateUtilizationRate(totalTeamHours, totalExpectedHours)
       : 0;
 
   const employeeOptions = employees.map((emp) => ({
@@ -236,24 +240,17 @@ export default function TeamPage() {
         </p>
       </div>
 
+      {/* Submitted weeks waiting for review */}
+      <PendingTimesheetsCard />
+
       {/* Filters */}
       <div className="mb-6 flex flex-wrap gap-4">
-        <div className="flex gap-2">
-          <Button
-            variant={periodFilter === "week" ? "primary" : "secondary"}
-            size="sm"
-            onClick={() => handlePeriodChange("week")}
-          >
-            This Week
-          </Button>
-          <Button
-            variant={periodFilter === "month" ? "primary" : "secondary"}
-            size="sm"
-            onClick={() => handlePeriodChange("month")}
-          >
-            This Month
-          </Button>
-        </div>
+        <PeriodPicker
+          period={periodFilter}
+          startDate={startDate}
+          endDate={endDate}
+          onChange={handlePeriodChange}
+        />
 
         <div className="flex-1 max-w-xs">
           <Select
@@ -265,29 +262,17 @@ export default function TeamPage() {
             onChange={(e) => setSelectedEmployee(e.target.value)}
           />
         </div>
+      </div>
 
-        <div className="flex gap-2 text-gray-900">
-          <input
-            type="date"
-            value={startDate}
-            onChange={(e) => {
-              setStartDate(e.target.value);
-              setPeriodFilter("custom");
-            }}
-            className="px-3 py-1 border border-gray-300 rounded-md text-sm"
-          />
-          <span className="self-center text-gray-500">to</span>
-          <input
-            type="date"
-            value={endDate}
-            onChange={(e) => {
-              setEndDate(e.target.value);
-              setPeriodFilter("custom");
-            }}
-            className="px-3 py-1 border border-gray-300 rounded-md text-sm"
+      {worklogs.some((w) => getWorklogTags(w).length > 0) && (
+        <div className="mb-6">
+          <TagFilter
+            tags={collectTags(worklogs)}
+            selected={selectedTags}
+            onChange={setSelectedTags}
           />
         </div>
-      </div>
+      )}
 
       {/* Period Info Banner */}
       <div className="mb-6 bg-blue-50 border border-blue-200 rounded-lg p-4">
@@ -298,9 +283,21 @@ export default function TeamPage() {
             <p className="mt-1">
               Selected period contains{" "}
               <strong>{workingDaysInPeriod} working days</strong>, expecting{" "}
-              <strong>{expectedHoursInPeriod} total hours</strong> per employee
-              (8 hours/day).
+              <strong>{expectedHoursInPeriod} total hours</strong> per full-time
+              employee ({HOURS_PER_DAY} hours/day).
+              {teamStats.some((stat) => !stat.hasStandardSchedule) &&
+                " Employees on a different work schedule are measured against their own hours."}
             </p>
+            <PeriodHolidaysNote startDate={startDate} endDate={endDate} />
+            {selectedTags.length > 0 && (
+              <p className="mt-1">
+                Hours and utilization below only count worklogs tagged{" "}
+                <strong>
+                  {selectedTags.map((tag) => `#${tag}`).join(", ")}
+                </strong>
+                .
+              </p>
+            )}
           </div>
         </div>
       </div>
@@ -314,10 +311,10 @@ export default function TeamPage() {
                 Total {viewLabel} Hours
               </p>
               <p className="text-2xl font-bold text-blue-900">
-                {totalTeamHours}
+                {formatHours(totalTeamHours)}
               </p>
               <p className="text-xs text-blue-700 mt-1">
-                of {expectedHoursInPeriod * teamStats.length} expected
+                of {formatHours(totalExpectedHours)} expected
               </p>
             </div>
             <Clock className="h-8 w-8 text-blue-500" />
@@ -351,7 +348,7 @@ export default function TeamPage() {
                 {averageTeamHours.toFixed(1)}
               </p>
               <p className="text-xs text-purple-700 mt-1">
-                of {expectedHoursInPeriod} expected
+                of {averageExpectedHours.toFixed(1)} expected
               </p>
             </div>
             <TrendingUp className="h-8 w-8 text-purple-500" />
@@ -435,13 +432,20 @@ export default function TeamPage() {
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm text-gray-900">{stat.role}</div>
                       <div className="text-sm text-gray-500">{stat.grade}</div>
+                      {!stat.hasStandardSchedule && stat.workSchedules && (
+                        <div className="text-xs text-purple-600">
+                          {describeWorkSchedule(
+                            getScheduleForDate(stat.workSchedules, endDate)
+                          )}
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm font-medium text-gray-900">
-                        {stat.totalHours}
+                        {formatHours(stat.totalHours)}
                       </div>
                       <div className="text-xs text-gray-500">
-                        of {expectedHoursInPeriod} expected
+                        of {formatHours(stat.expectedHours)} expected
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
@@ -449,7 +453,7 @@ export default function TeamPage() {
                         {stat.daysWorked}
                       </div>
                       <div className="text-xs text-gray-500">
-                        of {workingDaysInPeriod} working days
+                        of {stat.scheduledDays} working days
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
@@ -510,6 +514,9 @@ export default function TeamPage() {
           </table>
         </div>
       </Card>
+
+      {/* Hours by ticket key referenced in descriptions */}
+      <TicketHoursCard worklogs={filteredWorklogs} />
     </div>
   );
 }
@@ -4,9 +4,10 @@ import { useState, useEffect } from "react";
 import { useParams } from "next/navigation";
 import { worklogApi } from "@/lib/api";
 import { WorklogForm } from "../../../components/WorklogForm";
+import { WorklogHistory } from "../../../components/WorklogHistory";
 import { Worklog } from "@/lib/types";
 import { toast } from "react-hot-toast";
-import { Card } from "@/components/ui/Card";
+import { Card, CardHeader, CardTitle } from "@/components/ui/Card";
 import { extractErrorMessage } from "@/lib/error-handler";
 
 export default function EditWorklogPage() {
@@ -62,6 +63,13 @@ export default function EditWorklogPage() {
       </div>
 
       <WorklogForm worklog={worklog} />
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>Change History</CardTitle>
+        </CardHeader>
+        <WorklogHistory worklogId={worklog.id} />
+      </Card>
     </div>
   );
 }
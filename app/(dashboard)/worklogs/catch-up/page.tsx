@@ -0,0 +1,107 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { ArrowLeft, CheckCircle, SkipForward } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { Card } from "@/components/ui/Card";
+import { WorklogForm } from "../../components/WorklogForm";
+import { isValidDateString } from "@/lib/date-utils";
+import { formatLongDate } from "@/lib/date-settings";
+
+export default function CatchUpPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  // The missing days to walk through, passed in by the missing-days card
+  const dates = (searchParams.get("dates") || "")
+    .split(",")
+    .filter((date) => isValidDateString(date))
+    .sort();
+
+  const [index, setIndex] = useState(0);
+  const [loggedDates, setLoggedDates] = useState<string[]>([]);
+
+  const currentDate = dates[index];
+
+  // A day counts as logged once something was saved or queued for it,
+  // however the form was left afterwards
+  const markLogged = () => {
+    setLoggedDates((prev) =>
+      prev.includes(currentDate) ? prev : [...prev, currentDate]
+    );
+  };
+
+  const goToNextDay = () => {
+    setIndex(index + 1);
+  };
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-8 max-w-3xl mx-auto">
+      <div className="mb-6">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => router.push("/worklogs")}
+          className="mb-4"
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back
+        </Button>
+        <h1 className="text-2xl font-bold text-gray-900">Catch Up</h1>
+        <p className="text-gray-600">
+          Fill in the working days you have not logged yet
+        </p>
+      </div>
+
+      {currentDate ? (
+        <>
+          <div className="mb-4 flex justify-between items-center">
+            <div>
+              <p className="text-sm text-gray-600">
+                Day {index + 1} of {dates.length}
+              </p>
+              <p className="text-lg font-semibold text-gray-900">
+                {formatLongDate(currentDate)}
+              </p>
+            </div>
+            <Button variant="secondary" size="sm" onClick={goToNextDay}>
+              <SkipForward className="w-4 h-4 mr-2" />
+              Skip Day
+            </Button>
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-2 mb-6">
+            <div
+              className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+              style={{ width: `${(index / dates.length) * 100}%` }}
+            />
+          </div>
+
+          {/* Remount for each day so the form starts from that day's values and draft */}
+          <WorklogForm
+            key={currentDate}
+            initialValues={{ workDate: currentDate }}
+            onSaved={markLogged}
+            onQueued={markLogged}
+            onDone={goToNextDay}
+          />
+        </>
+      ) : (
+        <Card className="text-center py-12">
+          <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-4" />
+          <p className="text-gray-900 font-medium mb-1">
+            {dates.length === 0 ? "No days to catch up on" : "All caught up"}
+          </p>
+          {dates.length > 0 && (
+            <p className="text-gray-500 mb-4">
+              Logged {loggedDates.length} of {dates.length} day(s).
+            </p>
+          )}
+          <Button onClick={() => router.push("/worklogs")}>
+            Back to My Worklogs
+          </Button>
+        </Card>
+      )}
+    </div>
+  );
+}
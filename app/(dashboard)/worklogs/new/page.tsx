@@ -1,8 +1,40 @@
 "use client";
 
+import { useSearchParams } from "next/navigation";
 import { WorklogForm } from "../../components/WorklogForm";
+import { WorklogCreateRequest } from "@/lib/types";
+import { isValidDateString } from "@/lib/date-utils";
+import { clearTimerGroup } from "@/lib/timer";
 
 export default function NewWorklogPage() {
+  const searchParams = useSearchParams();
+
+  // Other screens (e.g. the timer or an employee's page) can pre-fill the form through the URL
+  const getInitialValues = (): Partial<WorklogCreateRequest> => {
+    const workDate = searchParams.get("workDate");
+    const worklogTypeId = searchParams.get("worklogTypeId");
+    const hoursWorked = searchParams.get("hoursWorked");
+    const projectName = searchParams.get("projectName");
+    const employeeId = searchParams.get("employeeId");
+
+    return {
+      employeeId: employeeId ? Number(employeeId) : undefined,
+      workDate: isValidDateString(workDate) ? workDate! : undefined,
+      worklogTypeId: worklogTypeId ? Number(worklogTypeId) : undefined,
+      hoursWorked: hoursWorked ? Number(hoursWorked) : undefined,
+      projectName: projectName || undefined,
+    };
+  };
+
+  const timerGroup = searchParams.get("timer");
+
+  // The timed work is recorded, or queued to be, so its timer can go
+  const clearTimer = () => {
+    if (timerGroup) {
+      clearTimerGroup(timerGroup);
+    }
+  };
+
   return (
     <div className="p-4 sm:p-6 lg:p-8 max-w-3xl mx-auto">
       <div className="mb-6">
@@ -10,7 +42,11 @@ export default function NewWorklogPage() {
         <p className="text-gray-600">Record your work activities</p>
       </div>
 
-      <WorklogForm />
+      <WorklogForm
+        initialValues={getInitialValues()}
+        onSaved={clearTimer}
+        onQueued={clearTimer}
+      />
     </div>
   );
 }
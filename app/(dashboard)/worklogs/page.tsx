@@ -1,31 +1,146 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import { useRouter } from "next/navigation";
-import { format, startOfWeek, endOfWeek } from "date-fns";
-import { Plus, Calendar, Trash2, Edit } from "lucide-react";
+import { useState, useEffect, useRef } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import {
+  Plus,
+  Calendar,
+  Trash2,
+  Edit,
+  Table,
+  Copy,
+  Repeat,
+  FileText,
+  List,
+  CalendarDays,
+  Merge,
+  Scissors,
+  Lock,
+  Flag,
+  UserCheck,
+  X,
+} from "lucide-react";
 import { Card, CardHeader, CardTitle } from "@/components/ui/Card";
 import { Button } from "@/components/ui/Button";
-import { worklogApi } from "@/lib/api";
-import { Worklog } from "@/lib/types";
+import { periodLockApi, worklogApi } from "@/lib/api";
+import { PeriodLock, Worklog } from "@/lib/types";
 import { toast } from "react-hot-toast";
 import { extractErrorMessage } from "@/lib/error-handler";
+import { formatHours, sumHours } from "@/lib/hours";
+import { CopyMode } from "@/lib/worklog-copy";
+import { collectTags, filterWorklogsByTags, getWorklogTags } from "@/lib/tags";
+import { getMergeCandidates } from "@/lib/split-merge";
+import {
+  PeriodFilter,
+  getMissingWorkingDays,
+  resolvePeriodParams,
+} from "@/lib/date-utils";
+import { formatLongDate } from "@/lib/date-settings";
+import {
+  findPeriodLock,
+  getLocksInRange,
+  getPeriodLockMessage,
+} from "@/lib/period-locks";
+import { CopyWorklogsPanel } from "../components/CopyWorklogsPanel";
+import { BulkEditPanel } from "../components/BulkEditPanel";
+import { SplitWorklogPanel } from "../components/SplitWorklogPanel";
+import { MergeWorklogsPanel } from "../components/MergeWorklogsPanel";
+import { TicketText } from "../components/TicketText";
+import { TagFilter } from "../components/TagFilter";
+import { WorklogCalendar } from "../components/WorklogCalendar";
+import { MissingDaysCard } from "../components/MissingDaysCard";
+import { LockedPeriodsNote } from "../components/LockedPeriodsNote";
+import { WorklogCommentButton } from "../components/WorklogCommentButton";
+import { WorklogCommentThread } from "../components/WorklogCommentThread";
+import { PeriodPicker, PeriodSelection } from "../components/PeriodPicker";
+import { isEnteredOnBehalf } from "@/lib/on-behalf";
+import {
+  TIMESHEET_STATUS_LABELS,
+  getTimesheetStatusColor,
+  isLockedStatus,
+  isWorklogEditable,
+} from "@/lib/timesheet-status";
+
+// How long a deleted worklog can still be restored before it is really deleted
+const UNDO_DELETE_MS = 6000;
 
 export default function WorklogsPage() {
   const router = useRouter();
+  const searchParams = useSearchParams();
   const [worklogs, setWorklogs] = useState<Worklog[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [startDate, setStartDate] = useState(
-    format(startOfWeek(new Date(), { weekStartsOn: 1 }), "yyyy-MM-dd")
+  const [copyMode, setCopyMode] = useState<CopyMode | null>(null);
+  const [view, setView] = useState<"list" | "calendar">("list");
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [isBulkEditing, setIsBulkEditing] = useState(false);
+  // Split, merge or comment panel open on a worklog card
+  const [cardAction, setCardAction] = useState<{
+    worklogId: number;
+    kind: "split" | "merge" | "comments";
+  } | null>(null);
+  // Worklogs removed from the list whose deletion can still be undone
+  const [pendingDeleteIds, setPendingDeleteIds] = useState<number[]>([]);
+  // Deletes still waiting for their undo window, sent at once if the page is left
+  const scheduledDeletes = useRef(
+    new Map<ReturnType<typeof setTimeout>, number[]>()
+  );
+  // Initialize date state from URL params or use defaults
+  const initialDates = resolvePeriodParams(
+    searchParams.get("startDate"),
+    searchParams.get("endDate"),
+    searchParams.get("period")
   );
-  const [endDate, setEndDate] = useState(
-    format(endOfWeek(new Date(), { weekStartsOn: 1 }), "yyyy-MM-dd")
+  const [periodFilter, setPeriodFilter] = useState<PeriodFilter>(
+    initialDates.period
   );
+  const [startDate, setStartDate] = useState(initialDates.startDate);
+  const [endDate, setEndDate] = useState(initialDates.endDate);
+  const [periodLocks, setPeriodLocks] = useState<PeriodLock[]>([]);
+
+  useEffect(() => {
+    const params = new URLSearchParams({
+      startDate,
+      endDate,
+      period: periodFilter,
+    });
+    const qs = `?${params.toString()}`;
+
+    if (window.location.search !== qs) {
+      router.replace(`/worklogs${qs}`, { scroll: false });
+    }
+  }, [startDate, endDate, periodFilter, router]);
+
+  useEffect(() => {
+    loadPeriodLocks();
+  }, []);
+
+  useEffect(() => {
+    const sendScheduledDeletes = () => {
+      scheduledDeletes.current.forEach((ids, timeout) => {
+        clearTimeout(timeout);
+        ids.forEach((id) => worklogApi.deleteWorklogOnUnload(id));
+      });
+      scheduledDeletes.current.clear();
+    };
+
+    window.addEventListener("pagehide", sendScheduledDeletes);
+    return () => window.removeEventListener("pagehide", sendScheduledDeletes);
+  }, []);
 
   useEffect(() => {
     loadWorklogs();
   }, [startDate, endDate]);
 
+  const loadPeriodLocks = async () => {
+    try {
+      setPeriodLocks(await periodLockApi.getPeriodLocks());
+    } catch (error) {
+      // The server refuses changes in closed periods anyway
+      console.error("Failed to load period locks:", error);
+    }
+  };
+
   const loadWorklogs = async () => {
     setIsLoading(true);
     try {
@@ -40,21 +155,114 @@ export default function WorklogsPage() {
     }
   };
 
-  const handleDelete = async (id: number) => {
-    if (!confirm("Are you sure you want to delete this worklog?")) return;
+  const handleDelete = (ids: number[]) => {
+    setPendingDeleteIds((prev) => [...prev, ...ids]);
+    setSelectedIds((prev) => prev.filter((id) => !ids.includes(id)));
 
-    try {
-      await worklogApi.deleteWorklog(id);
-      toast.success("Worklog deleted successfully");
-      loadWorklogs();
-    } catch (error) {
-      console.error("Failed to delete worklog:", error);
-      const errorMessage = extractErrorMessage(error);
-      toast.error(errorMessage);
+    const restore = () =>
+      setPendingDeleteIds((prev) => prev.filter((id) => !ids.includes(id)));
+
+    // The delete is only sent once the undo window has passed
+    const timeout = setTimeout(() => {
+      scheduledDeletes.current.delete(timeout);
+      commitDelete(ids, restore);
+    }, UNDO_DELETE_MS);
+    scheduledDeletes.current.set(timeout, ids);
+
+    toast(
+      (t) => (
+        <span className="flex items-center gap-3">
+          {ids.length === 1
+            ? "Worklog deleted"
+            : `${ids.length} worklogs deleted`}
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => {
+              clearTimeout(timeout);
+              scheduledDeletes.current.delete(timeout);
+              restore();
+              toast.dismiss(t.id);
+            }}
+          >
+            Undo
+          </Button>
+        </span>
+      ),
+      { duration: UNDO_DELETE_MS }
+    );
+  };
+
+  const commitDelete = async (ids: number[], restore: () => void) => {
+    const results = await Promise.allSettled(
+      ids.map((id) => worklogApi.deleteWorklog(id))
+    );
+    const failedIds = ids.filter(
+      (_, index) => results[index].status === "rejected"
+    );
+
+    setWorklogs((prev) =>
+      prev.filter((w) => !ids.includes(w.id) || failedIds.includes(w.id))
+    );
+    restore();
+
+    if (failedIds.length > 0) {
+      const firstError = results.find(
+        (result): result is PromiseRejectedResult =>
+          result.status === "rejected"
+      );
+      console.error("Failed to delete worklog:", firstError?.reason);
+      toast.error(
+        failedIds.length === ids.length
+          ? extractErrorMessage(firstError?.reason)
+          : `${failedIds.length} of ${ids.length} worklogs could not be deleted`
+      );
     }
   };
 
-  const groupedWorklogs = worklogs.reduce((acc, worklog) => {
+  const getPeriodLock = (worklog: Worklog) =>
+    findPeriodLock(worklog.workDate, periodLocks);
+
+  const refuseLockedChange = (lock: PeriodLock) => {
+    toast.error(getPeriodLockMessage(lock), { duration: 6000 });
+  };
+
+  const updateWorklog = (id: number, changes: Partial<Worklog>) => {
+    setWorklogs((prev) =>
+      prev.map((w) => (w.id === id ? { ...w, ...changes } : w))
+    );
+  };
+
+  const handlePeriodChange = (selection: PeriodSelection) => {
+    setPeriodFilter(selection.period);
+    setStartDate(selection.startDate);
+    setEndDate(selection.endDate);
+  };
+
+  const toggleSelected = (id: number) => {
+    setSelectedIds((prev) =>
+      prev.includes(id) ? prev.filter((i) => i !== id) : [...prev, id]
+    );
+  };
+
+  const visibleWorklogs = worklogs.filter(
+    (w) => !pendingDeleteIds.includes(w.id)
+  );
+  const filteredWorklogs = filterWorklogsByTags(visibleWorklogs, selectedTags);
+  const missingDays = getMissingWorkingDays(
+    startDate,
+    endDate,
+    visibleWorklogs
+  );
+  // Entries in closed periods are left out of selections, splits and merges
+  const changeableWorklogs = visibleWorklogs.filter(
+    (w) => isWorklogEditable(w) && !getPeriodLock(w)
+  );
+  const selectableIds = filteredWorklogs
+    .filter((w) => changeableWorklogs.includes(w))
+    .map((w) => w.id);
+
+  const groupedWorklogs = filteredWorklogs.reduce((acc, worklog) => {
     const date = worklog.workDate;
     if (!acc[date]) {
       acc[date] = [];
@@ -63,7 +271,7 @@ export default function WorklogsPage() {
     return acc;
   }, {} as Record<string, Worklog[]>);
 
-  const totalHours = worklogs.reduce((sum, w) => sum + w.hoursWorked, 0);
+  const totalHours = sumHours(filteredWorklogs);
 
   return (
     <div className="p-4 sm:p-6 lg:p-8 max-w-7xl mx-auto">
@@ -73,181 +281,405 @@ export default function WorklogsPage() {
           <h1 className="text-2xl font-bold text-gray-900">My Worklogs</h1>
           <p className="text-gray-600">Track your daily work activities</p>
         </div>
-        <Button onClick={() => router.push("/worklogs/new")}>
-          <Plus className="w-4 h-4 mr-2" />
-          Add Worklog
+        <div className="flex flex-wrap gap-2 justify-end">
+          <Button variant="secondary" onClick={() => setCopyMode("day")}>
+            <Repeat className="w-4 h-4 mr-2" />
+            Repeat Yesterday
+          </Button>
+          <Button variant="secondary" onClick={() => setCopyMode("week")}>
+            <Copy className="w-4 h-4 mr-2" />
+            Copy Last Week
+          </Button>
+          <Button
+            variant="secondary"
+            onClick={() => router.push("/worklogs/templates")}
+          >
+            <FileText className="w-4 h-4 mr-2" />
+            Templates
+          </Button>
+          <Button
+            variant="secondary"
+            onClick={() => router.push("/worklogs/timesheet")}
+          >
+            <Table className="w-4 h-4 mr-2" />
+            Weekly Timesheet
+          </Button>
+          <Button onClick={() => router.push("/worklogs/new")}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Worklog
+          </Button>
+        </div>
+      </div>
+
+      {copyMode && (
+        <CopyWorklogsPanel
+          mode={copyMode}
+          onClose={() => setCopyMode(null)}
+          onCopied={loadWorklogs}
+        />
+      )}
+
+      {/* View Toggle */}
+      <div className="mb-6 flex gap-2">
+        <Button
+          variant={view === "list" ? "primary" : "secondary"}
+          size="sm"
+          onClick={() => setView("list")}
+        >
+          <List className="w-4 h-4 mr-2" />
+          List
+        </Button>
+        <Button
+          variant={view === "calendar" ? "primary" : "secondary"}
+          size="sm"
+          onClick={() => setView("calendar")}
+        >
+          <CalendarDays className="w-4 h-4 mr-2" />
+          Calendar
         </Button>
       </div>
 
-      {/* Date Filter */}
-      <Card className="mb-6">
-        <div className="flex flex-col sm:flex-row gap-4 items-end">
-          <div className="flex-1">
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              Start Date
-            </label>
-            <input
-              type="date"
-              value={startDate}
-              onChange={(e) => setStartDate(e.target.value)}
-              className="w-full px-3 py-2 border text-gray-900 border-gray-300 rounded-md"
+      {view === "calendar" ? (
+        <WorklogCalendar />
+      ) : (
+        <>
+          {/* Date Filter */}
+          <Card className="mb-6">
+            <PeriodPicker
+              period={periodFilter}
+              startDate={startDate}
+              endDate={endDate}
+              onChange={handlePeriodChange}
             />
-          </div>
-          <div className="flex-1">
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              End Date
-            </label>
-            <input
-              type="date"
-              value={endDate}
-              onChange={(e) => setEndDate(e.target.value)}
-              className="w-full px-3 py-2 border text-gray-900 border-gray-300 rounded-md"
+            <LockedPeriodsNote
+              locks={getLocksInRange(startDate, endDate, periodLocks)}
             />
-          </div>
-          <div className="flex gap-2">
-            <Button
-              variant="secondary"
-              onClick={() => {
-                const today = new Date();
-                setStartDate(
-                  format(startOfWeek(today, { weekStartsOn: 1 }), "yyyy-MM-dd")
-                );
-                setEndDate(
-                  format(endOfWeek(today, { weekStartsOn: 1 }), "yyyy-MM-dd")
-                );
-              }}
-            >
-              This Week
-            </Button>
-            <Button
-              variant="secondary"
-              onClick={() => {
-                const today = new Date();
-                const lastWeekStart = new Date(today);
-                lastWeekStart.setDate(today.getDate() - 7);
-                setStartDate(
-                  format(
-                    startOfWeek(lastWeekStart, { weekStartsOn: 1 }),
-                    "yyyy-MM-dd"
-                  )
-                );
-                setEndDate(
-                  format(
-                    endOfWeek(lastWeekStart, { weekStartsOn: 1 }),
-                    "yyyy-MM-dd"
-                  )
-                );
-              }}
-            >
-              Last Week
-            </Button>
-          </div>
-        </div>
-      </Card>
-
-      {/* Summary */}
-      <Card className="mb-6 bg-blue-50 border-blue-200">
-        <div className="flex justify-between items-center">
-          <div>
-            <p className="text-sm font-medium text-blue-600">Period Total</p>
-            <p className="text-2xl font-bold text-blue-900">
-              {totalHours} hours
-            </p>
-          </div>
-          <Calendar className="h-8 w-8 text-blue-500" />
-        </div>
-      </Card>
-
-      {/* Worklogs List */}
-      {isLoading ? (
-        <div className="space-y-4">
-          {[...Array(3)].map((_, i) => (
-            <Card key={i}>
-              <div className="animate-pulse space-y-3">
-                <div className="h-4 bg-gray-200 rounded w-1/4"></div>
-                <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+            {worklogs.some((w) => getWorklogTags(w).length > 0) && (
+              <div className="mt-4">
+                <TagFilter
+                  tags={collectTags(worklogs)}
+                  selected={selectedTags}
+                  onChange={setSelectedTags}
+                />
+              </div>
+            )}
+          </Card>
+
+          {!isLoading && <MissingDaysCard missingDays={missingDays} />}
+
+          {/* Summary */}
+          <Card className="mb-6 bg-blue-50 border-blue-200">
+            <div className="flex justify-between items-center">
+              <div>
+                <p className="text-sm font-medium text-blue-600">
+                  Period Total
+                </p>
+                <p className="text-2xl font-bold text-blue-900">
+                  {formatHours(totalHours)} hours
+                </p>
+              </div>
+              <Calendar className="h-8 w-8 text-blue-500" />
+            </div>
+          </Card>
+
+          {/* Bulk Actions */}
+          {selectedIds.length > 0 && (
+            <Card className="mb-6 border border-blue-200">
+              <div className="flex flex-wrap justify-between items-center gap-4">
+                <p className="text-sm font-medium text-gray-900">
+                  {selectedIds.length} worklog(s) selected
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => setSelectedIds(selectableIds)}
+                  >
+                    Select All
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => setIsBulkEditing(true)}
+                  >
+                    <Edit className="w-4 h-4 mr-2" />
+                    Edit Selected
+                  </Button>
+                  <Button
+                    variant="danger"
+                    size="sm"
+                    onClick={() => handleDelete(selectedIds)}
+                  >
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Delete Selected
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      setSelectedIds([]);
+                      setIsBulkEditing(false);
+                    }}
+                  >
+                    <X className="w-4 h-4 mr-2" />
+                    Clear
+                  </Button>
+                </div>
               </div>
             </Card>
-          ))}
-        </div>
-      ) : Object.keys(groupedWorklogs).length === 0 ? (
-        <Card className="text-center py-12">
-          <p className="text-gray-500 mb-4">
-            No worklogs found for this period
-          </p>
-        </Card>
-      ) : (
-        <div className="space-y-6">
-          {Object.entries(groupedWorklogs)
-            .sort((a, b) => b[0].localeCompare(a[0]))
-            .map(([date, logs]) => {
-              const dayTotal = logs.reduce(
-                (sum, log) => sum + log.hoursWorked,
-                0
-              );
-              return (
-                <div key={date}>
-                  <div className="flex justify-between items-center mb-3">
-                    <h3 className="text-lg font-semibold text-gray-900">
-                      {format(new Date(date), "EEEE, MMMM d, yyyy")}
-                    </h3>
-                    <span className="text-sm font-medium text-gray-600">
-                      {dayTotal} hours
-                    </span>
+          )}
+
+          {isBulkEditing && selectedIds.length > 0 && (
+            <BulkEditPanel
+              worklogs={worklogs.filter((w) => selectedIds.includes(w.id))}
+              periodLocks={periodLocks}
+              onClose={() => setIsBulkEditing(false)}
+              onUpdated={(failedIds) => {
+                // Keep only the failures selected so they can be retried
+                setSelectedIds(failedIds);
+                loadWorklogs();
+              }}
+            />
+          )}
+
+          {/* Worklogs List */}
+          {isLoading ? (
+            <div className="space-y-4">
+              {[...Array(3)].map((_, i) => (
+                <Card key={i}>
+                  <div className="animate-pulse space-y-3">
+                    <div className="h-4 bg-gray-200 rounded w-1/4"></div>
+                    <div className="h-4 bg-gray-200 rounded w-3/4"></div>
                   </div>
-                  <div className="space-y-3">
-                    {logs.map((worklog) => (
-                      <Card
-                        key={worklog.id}
-                        className="hover:shadow-lg transition-shadow"
-                      >
-                        <div className="flex justify-between items-start">
-                          <div className="flex-1">
-                            <div className="flex items-center gap-3 mb-2">
-                              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
-                                {worklog.worklogTypeName}
-                              </span>
-                              <span className="text-sm font-medium text-gray-900">
-                                {worklog.hoursWorked} hours
-                              </span>
-                              {worklog.projectName && (
-                                <span className="text-sm text-gray-600">
-                                  • {worklog.projectName}
-                                </span>
+                </Card>
+              ))}
+            </div>
+          ) : Object.keys(groupedWorklogs).length === 0 ? (
+            <Card className="text-center py-12">
+              <p className="text-gray-500 mb-4">
+                No worklogs found for this period
+              </p>
+            </Card>
+          ) : (
+            <div className="space-y-6">
+              {Object.entries(groupedWorklogs)
+                .sort((a, b) => b[0].localeCompare(a[0]))
+                .map(([date, logs]) => {
+                  const dayTotal = sumHours(logs);
+                  return (
+                    <div key={date}>
+                      <div className="flex justify-between items-center mb-3">
+                        <h3 className="text-lg font-semibold text-gray-900">
+                          {formatLongDate(date)}
+                        </h3>
+                        <span className="text-sm font-medium text-gray-600">
+                          {formatHours(dayTotal)} hours
+                        </span>
+                      </div>
+                      <div className="space-y-3">
+                        {logs.map((worklog) => {
+                          const periodLock = getPeriodLock(worklog);
+                          const mergeCandidates = getMergeCandidates(
+                            worklog,
+                            changeableWorklogs
+                          );
+                          const action =
+                            cardAction?.worklogId === worklog.id
+                              ? cardAction.kind
+                              : null;
+                          return (
+                            <Card
+                              key={worklog.id}
+                              className="hover:shadow-lg transition-shadow"
+                            >
+                              <div className="flex justify-between items-start">
+                                {selectableIds.includes(worklog.id) && (
+                                  <input
+                                    type="checkbox"
+                                    checked={selectedIds.includes(worklog.id)}
+                                    onChange={() => toggleSelected(worklog.id)}
+                                    className="h-4 w-4 mt-1 mr-4 rounded border-gray-300"
+                                    aria-label="Select worklog"
+                                  />
+                                )}
+                                <div className="flex-1">
+                                  <div className="flex items-center gap-3 mb-2">
+                                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                                      {worklog.worklogTypeName}
+                                    </span>
+                                    <span className="text-sm font-medium text-gray-900">
+                                      {formatHours(worklog.hoursWorked)} hours
+                                    </span>
+                                    {worklog.projectName && (
+                                      <span className="text-sm text-gray-600">
+                                        • {worklog.projectName}
+                                      </span>
+                                    )}
+                                    {worklog.timesheetStatus &&
+                                      worklog.timesheetStatus !== "DRAFT" && (
+                                        <span
+                                          className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${getTimesheetStatusColor(
+                                            worklog.timesheetStatus
+                                          )}`}
+                                        >
+                                          {isLockedStatus(
+                                            worklog.timesheetStatus
+                                          ) && (
+                                            <Lock className="w-3 h-3 mr-1" />
+                                          )}
+                                          {
+                                            TIMESHEET_STATUS_LABELS[
+                                              worklog.timesheetStatus
+                                            ]
+                                          }
+                                        </span>
+                                      )}
+                                    {periodLock && (
+                                      <span
+                                        className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700"
+                                        title={getPeriodLockMessage(periodLock)}
+                                      >
+                                        <Lock className="w-3 h-3 mr-1" />
+                                        Period closed
+                                      </span>
+                                    )}
+                                    {isEnteredOnBehalf(worklog) && (
+                                      <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                                        <UserCheck className="w-3 h-3 mr-1" />
+                                        Entered by {worklog.enteredByName}
+                                      </span>
+                                    )}
+                                    {worklog.needsClarification && (
+                                      <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+                                        <Flag className="w-3 h-3 mr-1" />
+                                        Needs clarification
+                                      </span>
+                                    )}
+                                    <WorklogCommentButton
+                                      worklog={worklog}
+                                      isOpen={action === "comments"}
+                                      onClick={() =>
+                                        setCardAction(
+                                          action === "comments"
+                                            ? null
+                                            : {
+                                                worklogId: worklog.id,
+                                                kind: "comments",
+                                              }
+                                        )
+                                      }
+                                    />
+                                  </div>
+                                  <p className="text-gray-700">
+                                    <TicketText text={worklog.description} />
+                                  </p>
+                                  {getWorklogTags(worklog).length > 0 && (
+                                    <div className="flex flex-wrap gap-1 mt-2">
+                                      {getWorklogTags(worklog).map((tag) => (
+                                        <span
+                                          key={tag}
+                                          className="px-2 py-0.5 text-xs font-medium bg-gray-100 text-gray-700 rounded-full"
+                                        >
+                                          #{tag}
+                                        </span>
+                                      ))}
+                                    </div>
+                                  )}
+                                </div>
+                                {isWorklogEditable(worklog) && (
+                                  <div className="flex gap-2 ml-4">
+                                    <Button
+                                      variant="secondary"
+                                      size="sm"
+                                      onClick={() =>
+                                        periodLock
+                                          ? refuseLockedChange(periodLock)
+                                          : router.push(
+                                              `/worklogs/${worklog.id}/edit`
+                                            )
+                                      }
+                                    >
+                                      <Edit className="w-4 h-4" />
+                                    </Button>
+                                    {!periodLock && (
+                                      <Button
+                                        variant="secondary"
+                                        size="sm"
+                                        onClick={() =>
+                                          setCardAction({
+                                            worklogId: worklog.id,
+                                            kind: "split",
+                                          })
+                                        }
+                                        title="Split into several entries"
+                                      >
+                                        <Scissors className="w-4 h-4" />
+                                      </Button>
+                                    )}
+                                    {!periodLock &&
+                                      mergeCandidates.length > 0 && (
+                                        <Button
+                                          variant="secondary"
+                                          size="sm"
+                                          onClick={() =>
+                                            setCardAction({
+                                              worklogId: worklog.id,
+                                              kind: "merge",
+                                            })
+                                          }
+                                          title="Merge with entries of the same type and project"
+                                        >
+                                          <Merge className="w-4 h-4" />
+                                        </Button>
+                                      )}
+                                    <Button
+                                      variant="danger"
+                                      size="sm"
+                                      onClick={() =>
+                                        periodLock
+                                          ? refuseLockedChange(periodLock)
+                                          : handleDelete([worklog.id])
+                                      }
+                                    >
+                                      <Trash2 className="w-4 h-4" />
+                                    </Button>
+                                  </div>
+                                )}
+                              </div>
+                              {action === "split" && (
+                                <SplitWorklogPanel
+                                  worklog={worklog}
+                                  onClose={() => setCardAction(null)}
+                                  onSaved={loadWorklogs}
+                                />
                               )}
-                            </div>
-                            <p className="text-gray-700">
-                              {worklog.description}
-                            </p>
-                          </div>
-                          {worklog.isEditable && (
-                            <div className="flex gap-2 ml-4">
-                              <Button
-                                variant="secondary"
-                                size="sm"
-                                onClick={() =>
-                                  router.push(`/worklogs/${worklog.id}/edit`)
-                                }
-                              >
-                                <Edit className="w-4 h-4" />
-                              </Button>
-                              <Button
-                                variant="danger"
-                                size="sm"
-                                onClick={() => handleDelete(worklog.id)}
-                              >
-                                <Trash2 className="w-4 h-4" />
-                              </Button>
-                            </div>
-                          )}
-                        </div>
-                      </Card>
-                    ))}
-                  </div>
-                </div>
-              );
-            })}
-        </div>
+                              {action === "merge" && (
+                                <MergeWorklogsPanel
+                                  worklog={worklog}
+                                  candidates={mergeCandidates}
+                                  onClose={() => setCardAction(null)}
+                                  onSaved={loadWorklogs}
+                                />
+                              )}
+                              {action === "comments" && (
+                                <WorklogCommentThread
+                                  worklog={worklog}
+                                  canFlag={false}
+                                  onChange={(changes) =>
+                                    updateWorklog(worklog.id, changes)
+                                  }
+                                />
+                              )}
+                            </Card>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  );
+                })}
+            </div>
+          )}
+        </>
       )}
     </div>
   );
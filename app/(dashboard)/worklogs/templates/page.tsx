@@ -0,0 +1,32 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { TemplateManager } from "../../components/TemplateManager";
+
+export default function WorklogTemplatesPage() {
+  const router = useRouter();
+
+  return (
+    <div className="p-4 sm:p-6 lg:p-8 max-w-3xl mx-auto">
+      <div className="mb-6">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => router.push("/worklogs")}
+          className="mb-4"
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back
+        </Button>
+        <h1 className="text-2xl font-bold text-gray-900">Worklog Templates</h1>
+        <p className="text-gray-600">
+          Save recurring entries and apply them when adding a worklog
+        </p>
+      </div>
+
+      <TemplateManager />
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { worklogApi } from './api';
+import { extractErrorMessage } from './error-handler';
+import { Worklog, WorklogCreateRequest, WorklogType } from './types';
+
+// Worklog type codes that represent time away from work rather than work done
+export const ABSENCE_TYPE_CODES = (
+  process.env.NEXT_PUBLIC_ABSENCE_TYPE_CODES || 'VACATION,ANNUAL_LEAVE,SICK_LEAVE,LEAVE,ABSENCE'
+)
+  .split(',')
+  .map((code) => code.trim().toUpperCase())
+  .filter(Boolean);
+
+export function isAbsenceType(type: WorklogType | undefined): boolean {
+  return !!type && ABSENCE_TYPE_CODES.includes(type.code.toUpperCase());
+}
+
+export interface AbsenceResult {
+  created: Worklog[];
+  failedDate: string | null;
+  error: string | null;
+  // True when entries created before the failure were deleted again
+  rolledBack: boolean;
+}
+
+/**
+ * Create one worklog per day, stopping at the first failure. Entries already
+ * created are then deleted again so the range is saved all-or-nothing; if that
+ * cleanup fails too, the surviving entries are reported back.
+ */
+export async function createAbsenceEntries(
+  payload: Omit<WorklogCreateRequest, 'workDate'>,
+  workDates: string[]
+): Promise<AbsenceResult> {
+  const created: Worklog[] = [];
+
+  for (const workDate of workDates) {
+    try {
+      created.push(await worklogApi.createWorklog({ ...payload, workDate }));
+    } catch (error) {
+      const rollbacks = await Promise.allSettled(
+        created.map((worklog) => worklogApi.deleteWorklog(worklog.id))
+      );
+      const remaining = created.filter(
+        (_, index) => rollbacks[index].status === 'rejected'
+      );
+
+      return {
+        created: remaining,
+        failedDate: workDate,
+        error: extractErrorMessage(error),
+        rolledBack: remaining.length === 0,
+      };
+    }
+  }
+
+  return { created, failedDate: null, error: null, rolledBack: false };
+}
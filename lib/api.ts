@@ -13,7 +13,13 @@ import {
   DepartmentSummary,
   DepartmentDetails,
   DepartmentHierarchy,
-  UserDepartment
+  UserDepartment,
+  TimesheetSubmission,
+  WorklogComment,
+  WorklogRevision,
+  WorklogAuditFilter,
+  PeriodLock,
+  PeriodLockRequest
 } from './types';
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || '/api';
@@ -125,6 +131,93 @@ export const worklogApi = {
   deleteWorklog: async (id: number): Promise<void> => {
     await api.delete(`/worklogs/${id}`);
   },
+
+  // For use while the page is unloading: keepalive lets the request outlive the page
+  deleteWorklogOnUnload: (id: number): void => {
+    api
+      .delete(`/worklogs/${id}`, { adapter: 'fetch', fetchOptions: { keepalive: true } })
+      .catch((error) => console.error('Failed to delete worklog:', error));
+  },
+
+  getWorklogHistory: async (worklogId: number): Promise<WorklogRevision[]> => {
+    const response = await api.get<WorklogRevision[]>(`/worklogs/${worklogId}/history`);
+    return response.data;
+  },
+
+  // Directors only: changes to worklogs across the department, filtered by change date
+  getDepartmentAuditLog: async (filter: WorklogAuditFilter): Promise<WorklogRevision[]> => {
+    const response = await api.get<WorklogRevision[]>('/worklogs/audit/department', {
+      params: filter,
+    });
+    return response.data;
+  },
+
+  getComments: async (worklogId: number): Promise<WorklogComment[]> => {
+    const response = await api.get<WorklogComment[]>(`/worklogs/${worklogId}/comments`);
+    return response.data;
+  },
+
+  addComment: async (worklogId: number, body: string): Promise<WorklogComment> => {
+    const response = await api.post<WorklogComment>(`/worklogs/${worklogId}/comments`, { body });
+    return response.data;
+  },
+
+  markCommentsRead: async (worklogId: number): Promise<void> => {
+    await api.post(`/worklogs/${worklogId}/comments/read`);
+  },
+
+  // Team leads and directors only
+  setNeedsClarification: async (worklogId: number, needsClarification: boolean): Promise<Worklog> => {
+    const response = await api.put<Worklog>(`/worklogs/${worklogId}/clarification`, { needsClarification });
+    return response.data;
+  },
+
+  getMyTimesheets: async (startDate: string, endDate: string): Promise<TimesheetSubmission[]> => {
+    const response = await api.get<TimesheetSubmission[]>('/worklogs/timesheets/my', {
+      params: { startDate, endDate },
+    });
+    return response.data;
+  },
+
+  submitTimesheet: async (weekStartDate: string): Promise<TimesheetSubmission> => {
+    const response = await api.post<TimesheetSubmission>('/worklogs/timesheets', { weekStartDate });
+    return response.data;
+  },
+
+  // Submitted weeks awaiting review by the current team lead or director
+  getPendingTimesheets: async (): Promise<TimesheetSubmission[]> => {
+    const response = await api.get<TimesheetSubmission[]>('/worklogs/timesheets/pending');
+    return response.data;
+  },
+
+  approveTimesheet: async (id: number): Promise<TimesheetSubmission> => {
+    const response = await api.post<TimesheetSubmission>(`/worklogs/timesheets/${id}/approve`);
+    return response.data;
+  },
+
+  rejectTimesheet: async (id: number, comment: string): Promise<TimesheetSubmission> => {
+    const response = await api.post<TimesheetSubmission>(`/worklogs/timesheets/${id}/reject`, { comment });
+    return response.data;
+  },
+};
+
+// Period Lock APIs
+export const periodLockApi = {
+  // Locks of the current user's department
+  getPeriodLocks: async (): Promise<PeriodLock[]> => {
+    const response = await api.get<PeriodLock[]>('/period-locks');
+    return response.data;
+  },
+
+  // Directors only; the lock applies to the director's department
+  createPeriodLock: async (data: PeriodLockRequest): Promise<PeriodLock> => {
+    const response = await api.post<PeriodLock>('/period-locks', data);
+    return response.data;
+  },
+
+  deletePeriodLock: async (id: number): Promise<void> => {
+    await api.delete(`/period-locks/${id}`);
+  },
 };
 
 // Worklog Type APIs
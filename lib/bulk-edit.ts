@@ -0,0 +1,167 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { worklogApi } from './api';
+import { extractErrorMessage } from './error-handler';
+import { PeriodLock, TimesheetSubmission, Worklog, WorklogCreateRequest } from './types';
+import {
+  findLockedSubmission,
+  getLockedWeekMessage,
+  getMyTimesheetsCovering,
+  isWorklogEditable,
+} from './timesheet-status';
+import { findPeriodLock, getPeriodLockMessage } from './period-locks';
+import { getWorkingDayFraction } from './holidays';
+import {
+  DAILY_CAP_POLICY,
+  MAX_HOURS_PER_DAY,
+  formatHours,
+  getRemainingDailyHours,
+  sumHours,
+} from './hours';
+
+// Fields left undefined keep each worklog's current value
+export interface BulkEditChanges {
+  worklogTypeId?: number;
+  projectName?: string;
+  // Days to move each worklog by; negative moves it earlier
+  dayShift?: number;
+}
+
+export interface BulkEditResult {
+  // Error message per worklog id that was not updated
+  errors: Record<number, string>;
+  // Days pushed over MAX_HOURS_PER_DAY when the cap policy only warns
+  overCapDates: string[];
+}
+
+export function hasBulkEditChanges(changes: BulkEditChanges): boolean {
+  return (
+    changes.worklogTypeId !== undefined ||
+    changes.projectName !== undefined ||
+    (changes.dayShift !== undefined && changes.dayShift !== 0)
+  );
+}
+
+export function applyBulkEdit(worklog: Worklog, changes: BulkEditChanges): WorklogCreateRequest {
+  return {
+    worklogTypeId: changes.worklogTypeId ?? worklog.worklogTypeId,
+    workDate: changes.dayShift
+      ? format(addDays(parseISO(worklog.workDate), changes.dayShift), 'yyyy-MM-dd')
+      : worklog.workDate,
+    hoursWorked: worklog.hoursWorked,
+    projectName: changes.projectName ?? (worklog.projectName || ''),
+    description: worklog.description,
+    tags: worklog.tags,
+  };
+}
+
+/**
+ * Why a worklog cannot be moved to its new date, or null when it can
+ */
+function getDateError(
+  payload: WorklogCreateRequest,
+  worklog: Worklog,
+  locks: PeriodLock[],
+  submissions: TimesheetSubmission[],
+  today: string
+): string | null {
+  if (payload.workDate > today) {
+    return 'The new date would be in the future';
+  }
+  const lock = findPeriodLock(payload.workDate, locks);
+  if (lock) {
+    return getPeriodLockMessage(lock);
+  }
+  const lockedSubmission = findLockedSubmission(payload.workDate, submissions);
+  if (lockedSubmission) {
+    return getLockedWeekMessage(lockedSubmission.status);
+  }
+  if (payload.workDate !== worklog.workDate && getWorkingDayFraction(parseISO(payload.workDate)) === 0) {
+    return 'The new date is not a working day';
+  }
+  return null;
+}
+
+/**
+ * The user's submissions for the weeks the worklogs would end up in
+ */
+async function loadTargetSubmissions(payloads: WorklogCreateRequest[]): Promise<TimesheetSubmission[]> {
+  if (payloads.length === 0) return [];
+  const dates = payloads.map((payload) => payload.workDate).sort();
+  try {
+    return await getMyTimesheetsCovering(dates[0], dates[dates.length - 1]);
+  } catch (error) {
+    // The server refuses changes in submitted weeks anyway
+    console.error('Failed to load timesheet submissions:', error);
+    return [];
+  }
+}
+
+/**
+ * New dates the worklogs would push over MAX_HOURS_PER_DAY, counting what is
+ * already logged there plus every selected worklog landing on them
+ */
+async function findOverCapDates(worklogs: Worklog[], payloads: WorklogCreateRequest[]): Promise<string[]> {
+  const movedPayloads = payloads.filter((payload, i) => payload.workDate !== worklogs[i].workDate);
+  const newDates = Array.from(new Set(movedPayloads.map((payload) => payload.workDate))).sort();
+  if (newDates.length === 0) return [];
+
+  let logged: Worklog[];
+  try {
+    logged = await worklogApi.getMyWorklogs(newDates[0], newDates[newDates.length - 1]);
+  } catch (error) {
+    // The server still validates each update, so just skip the cap check
+    console.error('Failed to load worklogs for the new dates:', error);
+    return [];
+  }
+
+  const selectedIds = worklogs.map((worklog) => worklog.id);
+  return newDates.filter((date) => {
+    const others = logged.filter((w) => w.workDate === date && !selectedIds.includes(w.id));
+    const landing = payloads.filter((payload) => payload.workDate === date);
+    return getRemainingDailyHours(sumHours(others), sumHours(landing)) < 0;
+  });
+}
+
+/**
+ * Update the worklogs one at a time, reporting progress after each. Worklogs
+ * that are not editable are left alone. Moves that push a day over the daily
+ * cap fail or are reported, depending on DAILY_CAP_POLICY.
+ */
+export async function executeBulkEdit(
+  worklogs: Worklog[],
+  changes: BulkEditChanges,
+  locks: PeriodLock[],
+  onProgress: (done: number, total: number) => void
+): Promise<BulkEditResult> {
+  const errors: Record<number, string> = {};
+  const editable = worklogs.filter(isWorklogEditable);
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const payloads = editable.map((worklog) => applyBulkEdit(worklog, changes));
+  const submissions = await loadTargetSubmissions(payloads);
+  const overCapDates = await findOverCapDates(editable, payloads);
+
+  for (let i = 0; i < editable.length; i++) {
+    const worklog = editable[i];
+    const payload = payloads[i];
+    const dateError = getDateError(payload, worklog, locks, submissions, today);
+    const exceedsDailyCap = payload.workDate !== worklog.workDate && overCapDates.includes(payload.workDate);
+
+    if (dateError) {
+      errors[worklog.id] = dateError;
+    } else if (exceedsDailyCap && DAILY_CAP_POLICY === 'block') {
+      errors[worklog.id] = `The new date would have more than ${formatHours(MAX_HOURS_PER_DAY)} hours logged`;
+    } else {
+      try {
+        await worklogApi.updateWorklog(worklog.id, payload);
+      } catch (error) {
+        errors[worklog.id] = extractErrorMessage(error);
+      }
+    }
+    onProgress(i + 1, editable.length);
+  }
+
+  return {
+    errors,
+    overCapDates: DAILY_CAP_POLICY === 'block' ? [] : overCapDates,
+  };
+}
@@ -0,0 +1,79 @@
+import {
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  isWeekend,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { sumHours } from './hours';
+import { HOURS_PER_DAY } from './date-utils';
+import { getDateFnsOptions } from './date-settings';
+import { Holiday, getHoliday, getWorkingDayFraction } from './holidays';
+import { Worklog } from './types';
+
+export interface CalendarDay {
+  date: string;
+  isCurrentMonth: boolean;
+  isWeekend: boolean;
+  isToday: boolean;
+  isFuture: boolean;
+  holiday: Holiday | null;
+  // A past or current working day of the month with nothing logged
+  isMissing: boolean;
+  hours: number;
+  // Hours expected on the day: none on weekends and holidays, half on half-day holidays
+  expectedHours: number;
+  worklogs: Worklog[];
+}
+
+/**
+ * First and last day shown on a month calendar, padded to whole weeks from the user's first day of week
+ */
+export function getCalendarRange(month: Date): { startDate: string; endDate: string } {
+  const { weekStartsOn } = getDateFnsOptions();
+  return {
+    startDate: format(startOfWeek(startOfMonth(month), { weekStartsOn }), 'yyyy-MM-dd'),
+    endDate: format(endOfWeek(endOfMonth(month), { weekStartsOn }), 'yyyy-MM-dd'),
+  };
+}
+
+/**
+ * Build the calendar for a month as weeks of days, each with its worklogs
+ */
+export function buildCalendarWeeks(month: Date, worklogs: Worklog[], today: Date = new Date()): CalendarDay[][] {
+  const todayString = format(today, 'yyyy-MM-dd');
+  const { weekStartsOn } = getDateFnsOptions();
+  const start = startOfWeek(startOfMonth(month), { weekStartsOn });
+  const end = endOfWeek(endOfMonth(month), { weekStartsOn });
+
+  const days = eachDayOfInterval({ start, end }).map((day) => {
+    const date = format(day, 'yyyy-MM-dd');
+    const dayWorklogs = worklogs.filter((w) => w.workDate === date);
+    const hours = sumHours(dayWorklogs);
+    const isCurrentMonth = isSameMonth(day, month);
+    const isFuture = date > todayString;
+    const expectedHours = getWorkingDayFraction(day) * HOURS_PER_DAY;
+
+    return {
+      date,
+      isCurrentMonth,
+      isWeekend: isWeekend(day),
+      isToday: date === todayString,
+      isFuture,
+      holiday: getHoliday(date) || null,
+      isMissing: isCurrentMonth && expectedHours > 0 && !isFuture && hours === 0,
+      hours,
+      expectedHours,
+      worklogs: dayWorklogs,
+    };
+  });
+
+  const weeks: CalendarDay[][] = [];
+  for (let i = 0; i < days.length; i += 7) {
+    weeks.push(days.slice(i, i + 7));
+  }
+  return weeks;
+}
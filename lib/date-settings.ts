@@ -0,0 +1,119 @@
+import { format, parseISO } from 'date-fns';
+import type { Locale } from 'date-fns';
+import { enUS, tr } from 'date-fns/locale';
+import { readLocalJson, writeLocalJson } from './local-storage';
+
+export type WeekStartsOn = 0 | 1 | 6;
+export type DateLocaleCode = 'en' | 'tr';
+
+export interface DateSettings {
+  weekStartsOn: WeekStartsOn;
+  locale: DateLocaleCode;
+  // date-fns pattern used wherever a full date is displayed
+  dateFormat: string;
+}
+
+const DATE_SETTINGS_KEY = 'date-settings';
+
+const DATE_LOCALES: Record<DateLocaleCode, Locale> = {
+  en: enUS,
+  tr,
+};
+
+export const WEEK_START_OPTIONS: Array<{ value: WeekStartsOn; label: string }> = [
+  { value: 1, label: 'Monday' },
+  { value: 0, label: 'Sunday' },
+  { value: 6, label: 'Saturday' },
+];
+
+export const LOCALE_OPTIONS: Array<{ value: DateLocaleCode; label: string }> = [
+  { value: 'en', label: 'English' },
+  { value: 'tr', label: 'Türkçe' },
+];
+
+export const DATE_FORMAT_OPTIONS = ['MMM d, yyyy', 'd MMM yyyy', 'dd.MM.yyyy', 'MM/dd/yyyy', 'yyyy-MM-dd'];
+
+function parseWeekStartsOn(value: string | undefined): WeekStartsOn {
+  const day = Number(value);
+  return day === 0 || day === 6 ? day : 1;
+}
+
+function parseLocale(value: string | undefined): DateLocaleCode {
+  return value === 'tr' ? 'tr' : 'en';
+}
+
+/** Organisation-wide defaults, used until a user picks their own */
+export const DEFAULT_DATE_SETTINGS: DateSettings = {
+  weekStartsOn: parseWeekStartsOn(process.env.NEXT_PUBLIC_WEEK_STARTS_ON),
+  locale: parseLocale(process.env.NEXT_PUBLIC_DATE_LOCALE),
+  dateFormat: process.env.NEXT_PUBLIC_DATE_FORMAT || DATE_FORMAT_OPTIONS[0],
+};
+
+// Settings used by the date helpers; the defaults until the saved ones are applied after mount
+let activeSettings: DateSettings = DEFAULT_DATE_SETTINGS;
+
+/**
+ * The date settings in effect. Saved settings only apply once loaded after mount,
+ * so the server and the first client render format dates the same way.
+ */
+export function getDateSettings(): DateSettings {
+  return activeSettings;
+}
+
+export function applyDateSettings(settings: DateSettings): void {
+  activeSettings = settings;
+}
+
+/**
+ * The user's saved date settings, falling back to the organisation defaults
+ */
+export function loadDateSettings(): DateSettings {
+  const saved = readLocalJson<Partial<DateSettings>>(DATE_SETTINGS_KEY, {});
+  return {
+    weekStartsOn: saved.weekStartsOn !== undefined ? parseWeekStartsOn(String(saved.weekStartsOn)) : DEFAULT_DATE_SETTINGS.weekStartsOn,
+    locale: saved.locale ? parseLocale(saved.locale) : DEFAULT_DATE_SETTINGS.locale,
+    dateFormat: saved.dateFormat || DEFAULT_DATE_SETTINGS.dateFormat,
+  };
+}
+
+export function saveDateSettings(settings: DateSettings): void {
+  writeLocalJson(DATE_SETTINGS_KEY, settings);
+  applyDateSettings(settings);
+}
+
+export function getDateLocale(code: DateLocaleCode): Locale {
+  return DATE_LOCALES[code];
+}
+
+/**
+ * Options to pass to date-fns week and format functions so they follow the user's settings
+ */
+export function getDateFnsOptions(): { weekStartsOn: WeekStartsOn; locale: Locale } {
+  const settings = getDateSettings();
+  return { weekStartsOn: settings.weekStartsOn, locale: getDateLocale(settings.locale) };
+}
+
+function toDate(date: Date | string): Date {
+  return typeof date === 'string' ? parseISO(date) : date;
+}
+
+/**
+ * Format a date with a date-fns pattern in the user's locale
+ */
+export function formatLocalized(date: Date | string, pattern: string): string {
+  return format(toDate(date), pattern, { locale: getDateFnsOptions().locale });
+}
+
+/**
+ * Format a full date in the user's chosen date format, e.g. "Jan 15, 2025" or "15.01.2025"
+ */
+export function formatDisplayDate(date: Date | string): string {
+  return formatLocalized(date, getDateSettings().dateFormat);
+}
+
+/**
+ * Format a full date with its weekday, e.g. "Wednesday, Jan 15, 2025"
+ */
+export function formatLongDate(date: Date | string): string {
+  return `${formatLocalized(date, 'EEEE')}, ${formatDisplayDate(date)}`;
+}
@@ -1,6 +1,5 @@
 import { 
     eachDayOfInterval, 
-    isWeekend, 
     parseISO,
     startOfWeek,
     endOfWeek,
@@ -10,30 +9,85 @@ import {
     isValid,
     isEqual,
     isSameMonth,
-    isSameYear
+    isSameYear,
+    subDays,
+    addDays,
+    addMonths,
+    addQuarters,
+    addWeeks,
+    addYears,
+    differenceInCalendarDays,
+    endOfQuarter,
+    endOfYear,
+    startOfQuarter,
+    startOfDay,
+    startOfYear,
+    subMonths,
+    subWeeks
   } from 'date-fns';
+  import { getWorkingDayFraction } from './holidays';
+  import { formatDisplayDate, formatLocalized, getDateFnsOptions } from './date-settings';
   
   export const HOURS_PER_DAY = 8;
   export const HOURS_PER_WEEK = 40;
   
   /**
-   * Calculate the number of working days (excluding weekends) between two dates
+   * Get the working days (excluding weekends and full-day holidays) between two dates as yyyy-MM-dd strings
    */
-  export function calculateWorkingDays(startDate: string, endDate: string): number {
+  export function getWorkingDays(startDate: string, endDate: string): string[] {
     const start = parseISO(startDate);
     const end = parseISO(endDate);
   
     // Get all days in the interval
     const allDays = eachDayOfInterval({ start, end });
   
-    // Filter out weekends
-    const workingDays = allDays.filter((day) => !isWeekend(day));
+    // Filter out weekends and holidays; half-day holidays still count
+    return allDays
+      .filter((day) => getWorkingDayFraction(day) > 0)
+      .map((day) => format(day, 'yyyy-MM-dd'));
+  }
+  
+  /**
+   * Calculate the number of working days (excluding weekends and holidays) between two dates.
+   * Half-day holidays count as half a day.
+   */
+  export function calculateWorkingDays(startDate: string, endDate: string): number {
+    return getWorkingDays(startDate, endDate).reduce(
+      (total, day) => total + getWorkingDayFraction(parseISO(day)),
+      0
+    );
+  }
   
-    return workingDays.length;
+  /**
+   * Get the working days up to today between two dates that have no worklogs
+   */
+  export function getMissingWorkingDays(
+    startDate: string,
+    endDate: string,
+    worklogs: Array<{ workDate: string }>,
+    today: Date = new Date()
+  ): string[] {
+    const todayString = format(today, 'yyyy-MM-dd');
+    const loggedDates = new Set(worklogs.map((worklog) => worklog.workDate));
+  
+    return getWorkingDays(startDate, endDate).filter(
+      (day) => day <= todayString && !loggedDates.has(day)
+    );
+  }
+  
+  /**
+   * Get the closest working day (excluding weekends and full-day holidays) before the given date
+   */
+  export function getPreviousWorkingDay(date: Date = new Date()): Date {
+    let previous = subDays(date, 1);
+    while (getWorkingDayFraction(previous) === 0) {
+      previous = subDays(previous, 1);
+    }
+    return previous;
   }
   
   /**
-   * Calculate expected work hours based on working days
+   * Calculate expected work hours based on working days, honouring the holiday calendar
    */
   export function calculateExpectedHours(startDate: string, endDate: string): number {
     const workingDays = calculateWorkingDays(startDate, endDate);
@@ -69,24 +123,150 @@ import {
   }
   
   /**
-   * Get date range for a period filter
+   * Get background and text color classes based on utilization rate
    */
-  export function getDateRangeForPeriod(period: 'week' | 'month', baseDate: Date = new Date()) {
+  export function getUtilizationBackgroundColor(rate: number): string {
+    if (rate >= 90) return "bg-green-100 text-green-800";
+    if (rate >= 70) return "bg-blue-100 text-blue-800";
+    if (rate >= 50) return "bg-yellow-100 text-yellow-800";
+    return "bg-red-100 text-red-800";
+  }
+  
+  // Rolling presets cover the last N days up to and including today, e.g. last30Days
+  export type RollingPeriod = `last${number}Days`;
+  export type PeriodPreset = 'week' | 'lastWeek' | 'month' | 'lastMonth' | 'quarter' | 'yearToDate' | RollingPeriod;
+  export type PeriodFilter = PeriodPreset | 'custom';
+  
+  export const PERIOD_PRESETS: Array<{ value: PeriodPreset; label: string }> = [
+    { value: 'week', label: 'This Week' },
+    { value: 'lastWeek', label: 'Last Week' },
+    { value: 'month', label: 'This Month' },
+    { value: 'lastMonth', label: 'Last Month' },
+    { value: 'quarter', label: 'This Quarter' },
+    { value: 'yearToDate', label: 'Year to Date' },
+    { value: 'last7Days', label: 'Last 7 Days' },
+    { value: 'last30Days', label: 'Last 30 Days' },
+    { value: 'last90Days', label: 'Last 90 Days' },
+  ];
+  
+  const ROLLING_PERIOD_PATTERN = /^last(\d+)Days$/;
+  
+  /**
+   * Check whether a value (e.g. a URL param) is a known period filter
+   */
+  export function isPeriodFilter(value: string | null): value is PeriodFilter {
+    if (!value) return false;
+    if (value === 'custom' || PERIOD_PRESETS.some((preset) => preset.value === value)) return true;
+    const match = value.match(ROLLING_PERIOD_PATTERN);
+    return !!match && Number(match[1]) > 0;
+  }
+  
+  /**
+   * Display label for a period preset, e.g. "Last Month" or "Last 14 Days"
+   */
+  export function getPeriodLabel(period: PeriodPreset): string {
+    const preset = PERIOD_PRESETS.find((p) => p.value === period);
+    if (preset) return preset.label;
+    const match = period.match(ROLLING_PERIOD_PATTERN);
+    return match ? `Last ${match[1]} Days` : period;
+  }
+  
+  function toDateRange(start: Date, end: Date) {
+    return { startDate: format(start, 'yyyy-MM-dd'), endDate: format(end, 'yyyy-MM-dd') };
+  }
+  
+  /**
+   * Get date range for a period preset. Weeks start on the user's configured first day of week.
+   */
+  export function getDateRangeForPeriod(period: PeriodPreset, baseDate: Date = new Date()) {
+    const { weekStartsOn } = getDateFnsOptions();
     switch (period) {
       case 'week':
-        return {
-          startDate: format(startOfWeek(baseDate, { weekStartsOn: 1 }), 'yyyy-MM-dd'),
-          endDate: format(endOfWeek(baseDate, { weekStartsOn: 1 }), 'yyyy-MM-dd')
-        };
+        return toDateRange(startOfWeek(baseDate, { weekStartsOn }), endOfWeek(baseDate, { weekStartsOn }));
+      case 'lastWeek':
+        return getDateRangeForPeriod('week', subWeeks(baseDate, 1));
       case 'month':
-        return {
-          startDate: format(startOfMonth(baseDate), 'yyyy-MM-dd'),
-          endDate: format(endOfMonth(baseDate), 'yyyy-MM-dd')
-        };
-      default:
-        throw new Error(`Invalid period: ${period}`);
+        return toDateRange(startOfMonth(baseDate), endOfMonth(baseDate));
+      case 'lastMonth':
+        return getDateRangeForPeriod('month', subMonths(baseDate, 1));
+      case 'quarter':
+        return toDateRange(startOfQuarter(baseDate), endOfQuarter(baseDate));
+      case 'yearToDate':
+        return toDateRange(startOfYear(baseDate), baseDate);
+      default: {
+        const match = period.match(ROLLING_PERIOD_PATTERN);
+        if (!match || Number(match[1]) < 1) {
+          throw new Error(`Invalid period: ${period}`);
+        }
+        return toDateRange(subDays(baseDate, Number(match[1]) - 1), baseDate);
+      }
     }
   }
+  
+  /**
+   * Find the preset whose current range is exactly the given dates, or 'custom'
+   */
+  export function matchPeriodPreset(startDate: string, endDate: string, baseDate: Date = new Date()): PeriodFilter {
+    const preset = PERIOD_PRESETS.find((p) => {
+      const range = getDateRangeForPeriod(p.value, baseDate);
+      return range.startDate === startDate && range.endDate === endDate;
+    });
+    return preset ? preset.value : 'custom';
+  }
+  
+  /**
+   * Move a date range one period back (-1) or forward (1). Whole weeks, months, quarters
+   * and years step by that unit, a year-to-date range steps to the neighbouring full year,
+   * and any other range steps by its own length.
+   */
+  export function shiftDateRange(startDate: string, endDate: string, direction: 1 | -1) {
+    const start = parseISO(startDate);
+    const end = parseISO(endDate);
+    const { weekStartsOn } = getDateFnsOptions();
+  
+    if (isEqual(start, startOfYear(start)) && isEqual(end, startOfDay(endOfYear(start)))) {
+      return toDateRange(addYears(start, direction), endOfYear(addYears(start, direction)));
+    }
+    if (isEqual(start, startOfQuarter(start)) && isEqual(end, startOfDay(endOfQuarter(start)))) {
+      const quarter = addQuarters(start, direction);
+      return toDateRange(quarter, endOfQuarter(quarter));
+    }
+    if (isEqual(start, startOfMonth(start)) && isEqual(end, startOfDay(endOfMonth(start)))) {
+      const month = addMonths(start, direction);
+      return toDateRange(month, endOfMonth(month));
+    }
+    if (isEqual(start, startOfWeek(start, { weekStartsOn })) && differenceInCalendarDays(end, start) === 6) {
+      return toDateRange(addWeeks(start, direction), addWeeks(end, direction));
+    }
+    if (isEqual(start, startOfYear(start)) && isSameYear(start, end)) {
+      // Year to date: step to the neighbouring full year
+      const year = addYears(start, direction);
+      return toDateRange(year, endOfYear(year));
+    }
+  
+    const length = differenceInCalendarDays(end, start) + 1;
+    return toDateRange(addDays(start, direction * length), addDays(end, direction * length));
+  }
+  
+  /**
+   * Resolve the period to show from URL params: explicit valid dates win, otherwise
+   * the period preset is applied, falling back to the current week
+   */
+  export function resolvePeriodParams(
+    urlStartDate: string | null,
+    urlEndDate: string | null,
+    urlPeriod: string | null
+  ): { startDate: string; endDate: string; period: PeriodFilter } {
+    const period = isPeriodFilter(urlPeriod) ? urlPeriod : null;
+  
+    if (urlStartDate && urlEndDate && isValidDateString(urlStartDate) && isValidDateString(urlEndDate)) {
+      return { startDate: urlStartDate, endDate: urlEndDate, period: period || 'custom' };
+    }
+    if (period && period !== 'custom') {
+      return { ...getDateRangeForPeriod(period), period };
+    }
+    return { ...getDateRangeForPeriod('week'), period: 'week' };
+  }
 
   export function isValidDateString(dateStr: string | null) : boolean {
     if(!dateStr) return false;
@@ -105,31 +285,23 @@ import {
     const end = parseISO(endDate);
     const now = new Date();
     
-    // Check if it's the current week
-    const currentWeekStart = startOfWeek(now, { weekStartsOn: 1 });
-    const currentWeekEnd = endOfWeek(now, { weekStartsOn: 1 });
-    if (isEqual(start, currentWeekStart) && isEqual(end, currentWeekEnd)) {
-      return "This Week";
-    }
-    
-    // Check if it's the current month
-    const currentMonthStart = startOfMonth(now);
-    const currentMonthEnd = endOfMonth(now);
-    if (isEqual(start, currentMonthStart) && isEqual(end, currentMonthEnd)) {
-      return "This Month";
+    // Check if it's one of the presets, e.g. "This Week" or "Last 30 Days"
+    const preset = matchPeriodPreset(startDate, endDate, now);
+    if (preset !== 'custom') {
+      return getPeriodLabel(preset);
     }
     
     // Format custom date ranges
     if (isSameYear(start, end)) {
       if (isSameMonth(start, end)) {
         // Same month and year: "Jan 15 - 22, 2025"
-        return `${format(start, "MMM d")} - ${format(end, "d, yyyy")}`;
+        return `${formatLocalized(start, "MMM d")} - ${formatLocalized(end, "d, yyyy")}`;
       } else {
         // Same year, different months: "Jan 15 - Feb 28, 2025"
-        return `${format(start, "MMM d")} - ${format(end, "MMM d, yyyy")}`;
+        return `${formatLocalized(start, "MMM d")} - ${formatLocalized(end, "MMM d, yyyy")}`;
       }
     } else {
       // Different years: "Dec 25, 2024 - Jan 5, 2025"
-      return `${format(start, "MMM d, yyyy")} - ${format(end, "MMM d, yyyy")}`;
+      return `${formatDisplayDate(start)} - ${formatDisplayDate(end)}`;
     }
   };
\ No newline at end of file
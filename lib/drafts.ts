@@ -0,0 +1,69 @@
+import { readLocalJson, removeLocalItem, writeLocalJson } from './local-storage';
+import { WorklogCreateRequest } from './types';
+
+// WorklogForm field values as typed, before validation
+export interface WorklogDraftValues {
+  worklogTypeId: string;
+  workDate: string;
+  endDate?: string;
+  hoursWorked: string;
+  projectName?: string;
+  tags?: string[];
+  description: string;
+}
+
+// Unsaved WorklogForm values, kept so they survive a session expiry redirect or
+// a closed tab. Stored per user, then keyed by worklog id, or for a worklog not created yet by the
+// values the form was pre-filled with.
+export interface WorklogDraft {
+  values: WorklogDraftValues;
+  savedAt: number;
+}
+
+function getDraftStorageKey(userId: number, draftKey: string): string {
+  return `worklog-draft:${userId}:${draftKey}`;
+}
+
+/**
+ * A new worklog pre-filled by another screen (timer, calendar day, catch-up
+ * day, employee page) gets its own draft, so a draft never replaces values
+ * that were passed in
+ */
+export function getDraftKey(worklogId?: number | null, prefill?: object): string {
+  if (worklogId) return String(worklogId);
+
+  const context = prefill ? JSON.stringify(prefill) : '{}';
+  return context === '{}' ? 'new' : `new:${context}`;
+}
+
+export function loadDraft(userId: number, draftKey: string): WorklogDraft | null {
+  return readLocalJson<WorklogDraft | null>(getDraftStorageKey(userId, draftKey), null);
+}
+
+/**
+ * Only the worklog fields are kept; who the worklog is for is left out so a
+ * lead's unfinished entry for a report never comes back on another form
+ */
+export function saveDraft(userId: number, draftKey: string, values: WorklogDraftValues): void {
+  const { worklogTypeId, workDate, endDate, hoursWorked, projectName, tags, description } = values;
+  writeLocalJson<WorklogDraft>(getDraftStorageKey(userId, draftKey), {
+    values: { worklogTypeId, workDate, endDate, hoursWorked, projectName, tags, description },
+    savedAt: Date.now(),
+  });
+}
+
+export function clearDraft(userId: number, draftKey: string): void {
+  removeLocalItem(getDraftStorageKey(userId, draftKey));
+}
+
+export function toDraftValues(payload: WorklogCreateRequest): WorklogDraftValues {
+  return {
+    worklogTypeId: String(payload.worklogTypeId),
+    workDate: payload.workDate,
+    endDate: '',
+    hoursWorked: String(payload.hoursWorked),
+    projectName: payload.projectName,
+    tags: payload.tags || [],
+    description: payload.description,
+  };
+}
@@ -77,4 +77,18 @@ export function getErrorDetails(error: unknown): ApiError | null {
     }
   }
   return null;
-}
\ No newline at end of file
+}
+
+/**
+ * True when the request never got a response, e.g. because the network is down
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    return true;
+  }
+  if (error && typeof error === 'object' && 'isAxiosError' in error) {
+    const axiosError = error as AxiosError;
+    return !axiosError.response && axiosError.code !== 'ERR_CANCELED';
+  }
+  return false;
+}
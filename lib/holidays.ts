@@ -0,0 +1,59 @@
+import { format, isWeekend } from 'date-fns';
+import trHolidays from './holiday-calendars/tr.json';
+
+export interface Holiday {
+  date: string;
+  name: string;
+  // Half-day holidays (e.g. the eve of a bayram) still expect half a working day
+  halfDay?: boolean;
+}
+
+/** Bundled holiday calendars by ISO country code */
+const HOLIDAY_CALENDARS: Record<string, Holiday[]> = {
+  TR: trHolidays,
+};
+
+export const HOLIDAY_COUNTRY = (process.env.NEXT_PUBLIC_HOLIDAY_COUNTRY || 'TR').toUpperCase();
+
+const holidaysByDate = new Map(
+  (HOLIDAY_CALENDARS[HOLIDAY_COUNTRY] || []).map((holiday) => [holiday.date, holiday])
+);
+
+function toDateString(date: Date | string): string {
+  return typeof date === 'string' ? date : format(date, 'yyyy-MM-dd');
+}
+
+/**
+ * Get the holiday falling on a date, if any
+ */
+export function getHoliday(date: Date | string): Holiday | undefined {
+  return holidaysByDate.get(toDateString(date));
+}
+
+/**
+ * Whether a date is a full-day holiday
+ */
+export function isHoliday(date: Date | string): boolean {
+  const holiday = getHoliday(date);
+  return !!holiday && !holiday.halfDay;
+}
+
+/**
+ * Share of a normal working day expected on a date:
+ * 0 for weekends and holidays, 0.5 for half-day holidays, otherwise 1
+ */
+export function getWorkingDayFraction(date: Date): number {
+  if (isWeekend(date)) return 0;
+  const holiday = getHoliday(date);
+  if (!holiday) return 1;
+  return holiday.halfDay ? 0.5 : 0;
+}
+
+/**
+ * Holidays between two yyyy-MM-dd dates, inclusive
+ */
+export function getHolidaysInRange(startDate: string, endDate: string): Holiday[] {
+  return Array.from(holidaysByDate.values()).filter(
+    (holiday) => holiday.date >= startDate && holiday.date <= endDate
+  );
+}
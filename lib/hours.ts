@@ -0,0 +1,66 @@
+// Smallest unit of time that can be logged, in hours (0.25 = quarter-hour)
+export const HOURS_INCREMENT = Number(process.env.NEXT_PUBLIC_HOURS_INCREMENT) || 0.25;
+
+// Most hours that can be logged for a single day
+export const MAX_HOURS_PER_DAY = Number(process.env.NEXT_PUBLIC_MAX_HOURS_PER_DAY) || 12;
+
+/**
+ * Round hours to two decimals to get rid of floating point noise (0.1 + 0.2)
+ */
+function normalizeHours(hours: number): number {
+  return Math.round(hours * 100) / 100;
+}
+
+/**
+ * Round hours to the nearest logging increment
+ */
+export function roundHours(hours: number, increment: number = HOURS_INCREMENT): number {
+  return normalizeHours(Math.round(hours / increment) * increment);
+}
+
+/**
+ * Sum worklog hours. Use this wherever hoursWorked values are added up so all
+ * totals are rounded the same way.
+ */
+export function sumHours<T extends { hoursWorked: number }>(items: T[]): number {
+  return normalizeHours(items.reduce((sum, item) => sum + item.hoursWorked, 0));
+}
+
+/**
+ * Format hours for display without trailing zeros (e.g. "7.5", "8", "0.25")
+ */
+export function formatHours(hours: number): string {
+  return String(normalizeHours(hours));
+}
+
+export function isValidHoursIncrement(hours: number, increment: number = HOURS_INCREMENT): boolean {
+  const steps = hours / increment;
+  return Math.abs(steps - Math.round(steps)) < 1e-9;
+}
+
+/**
+ * Validate the hours of a single entry, returning an error message or null when valid
+ */
+export function validateHours(hours: number): string | null {
+  if (isNaN(hours) || hours < HOURS_INCREMENT || hours > MAX_HOURS_PER_DAY) {
+    return `Hours must be between ${formatHours(HOURS_INCREMENT)} and ${formatHours(MAX_HOURS_PER_DAY)}`;
+  }
+  if (!isValidHoursIncrement(hours)) {
+    return `Hours must be in steps of ${formatHours(HOURS_INCREMENT)}`;
+  }
+  return null;
+}
+
+// How WorklogForm reacts when a day's total would exceed MAX_HOURS_PER_DAY:
+// "block" refuses to save, "warn" only shows a warning
+export type DailyCapPolicy = 'block' | 'warn';
+export const DAILY_CAP_POLICY: DailyCapPolicy =
+  process.env.NEXT_PUBLIC_DAILY_CAP_POLICY === 'block' ? 'block' : 'warn';
+
+/**
+ * Hours still available on a day once the given entry is added to what is
+ * already logged. Negative when the day is over its cap.
+ */
+export function getRemainingDailyHours(loggedHours: number, entryHours: number): number {
+  return normalizeHours(MAX_HOURS_PER_DAY - loggedHours - (isNaN(entryHours) ? 0 : entryHours));
+}
@@ -0,0 +1,33 @@
+/**
+ * Read a JSON value from localStorage, falling back when it is missing,
+ * unreadable or when running outside the browser
+ */
+export function readLocalJson<T>(key: string, fallback: T): T {
+  if (typeof window === 'undefined') return fallback;
+
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch (error) {
+    console.error(`Failed to read ${key} from local storage:`, error);
+    return fallback;
+  }
+}
+
+/**
+ * Write a JSON value to localStorage
+ */
+export function writeLocalJson<T>(key: string, value: T): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Failed to write ${key} to local storage:`, error);
+  }
+}
+
+export function removeLocalItem(key: string): void {
+  if (typeof window === 'undefined') return;
+  window.localStorage.removeItem(key);
+}
@@ -0,0 +1,35 @@
+import { worklogApi } from './api';
+import { canViewDepartmentData, canViewTeamData } from './auth';
+import { User, Worklog } from './types';
+
+/**
+ * Team leads log for their reports and directors for their department
+ */
+export function canLogOnBehalf(user: User): boolean {
+  return canViewTeamData(user);
+}
+
+/**
+ * Whether the worklog was entered by someone other than the employee it belongs to
+ */
+export function isEnteredOnBehalf(worklog: Worklog): boolean {
+  return !!worklog.enteredById && worklog.enteredById !== worklog.employeeId;
+}
+
+/**
+ * Load an employee's worklogs through the endpoint the user's role allows
+ */
+export async function getEmployeeWorklogs(
+  user: User,
+  employeeId: number,
+  startDate: string,
+  endDate: string
+): Promise<Worklog[]> {
+  if (employeeId === user.id) {
+    return worklogApi.getMyWorklogs(startDate, endDate);
+  }
+  if (canViewDepartmentData(user)) {
+    return worklogApi.getDepartmentWorklogs(startDate, endDate, undefined, employeeId);
+  }
+  return worklogApi.getTeamWorklogs(startDate, endDate, employeeId);
+}
@@ -0,0 +1,36 @@
+import { PeriodLock } from './types';
+import { formatDisplayDate } from './date-settings';
+
+/**
+ * The lock covering a date, if any
+ */
+export function findPeriodLock(date: string, locks: PeriodLock[]): PeriodLock | undefined {
+  return locks.find((lock) => lock.startDate <= date && date <= lock.endDate);
+}
+
+export function isDateLocked(date: string, locks: PeriodLock[]): boolean {
+  return !!findPeriodLock(date, locks);
+}
+
+/**
+ * Locks overlapping the range, in date order
+ */
+export function getLocksInRange(startDate: string, endDate: string, locks: PeriodLock[]): PeriodLock[] {
+  return locks
+    .filter((lock) => lock.startDate <= endDate && startDate <= lock.endDate)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+}
+
+export function formatPeriodLockRange(lock: PeriodLock): string {
+  return lock.startDate === lock.endDate
+    ? formatDisplayDate(lock.startDate)
+    : `${formatDisplayDate(lock.startDate)} - ${formatDisplayDate(lock.endDate)}`;
+}
+
+/**
+ * Explanation shown when a change is refused because of a lock
+ */
+export function getPeriodLockMessage(lock: PeriodLock): string {
+  const reason = lock.reason ? ` (${lock.reason})` : '';
+  return `The period ${formatPeriodLockRange(lock)} was closed by ${lock.lockedByName}${reason}. Worklogs in it can no longer be added, changed or deleted.`;
+}
@@ -0,0 +1,135 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { Worklog } from './types';
+
+export interface ProjectSuggestion {
+  name: string;
+  count: number;
+  lastUsed: string;
+  score: number;
+}
+
+/**
+ * Lowercase and collapse punctuation so "worklog-system" and "Worklog System"
+ * compare equal
+ */
+export function normalizeProjectName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9\u00c0-\u024f]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Collect the distinct project names in the given worklogs. Each use counts
+ * for less the older it is, so names used often and recently rank first.
+ */
+export function buildProjectSuggestions(worklogs: Worklog[], today: Date = new Date()): ProjectSuggestion[] {
+  const byName = new Map<string, ProjectSuggestion>();
+
+  worklogs.forEach((worklog) => {
+    const name = worklog.projectName?.trim();
+    if (!name) return;
+
+    const daysAgo = Math.max(0, differenceInCalendarDays(today, parseISO(worklog.workDate)));
+    const weight = 1 / (1 + daysAgo / 30);
+    const existing = byName.get(name);
+
+    if (existing) {
+      existing.count += 1;
+      existing.score += weight;
+      if (worklog.workDate > existing.lastUsed) {
+        existing.lastUsed = worklog.workDate;
+      }
+    } else {
+      byName.set(name, { name, count: 1, lastUsed: worklog.workDate, score: weight });
+    }
+  });
+
+  return Array.from(byName.values()).sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Score how well a query matches a name: substring matches beat matches where
+ * the query characters only appear in order. Returns null when there is no match.
+ */
+function getMatchScore(query: string, name: string): number | null {
+  if (!query) return 0;
+
+  const index = name.indexOf(query);
+  if (index === 0) return 3;
+  if (index > 0) return name[index - 1] === ' ' ? 2 : 1;
+
+  let position = 0;
+  for (const char of query) {
+    position = name.indexOf(char, position);
+    if (position === -1) return null;
+    position += 1;
+  }
+  return 0;
+}
+
+/**
+ * Suggestions matching what has been typed so far, best match first
+ */
+export function matchProjectSuggestions(
+  suggestions: ProjectSuggestion[],
+  query: string,
+  limit: number = 8
+): ProjectSuggestion[] {
+  const normalizedQuery = normalizeProjectName(query);
+
+  return suggestions
+    .map((suggestion) => ({
+      suggestion,
+      match: getMatchScore(normalizedQuery, normalizeProjectName(suggestion.name)),
+    }))
+    .filter((item): item is { suggestion: ProjectSuggestion; match: number } => item.match !== null)
+    .sort((a, b) => b.match - a.match || b.suggestion.score - a.suggestion.score)
+    .slice(0, limit)
+    .map((item) => item.suggestion);
+}
+
+function getEditDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+function isNearDuplicate(a: string, b: string): boolean {
+  if (a === b) return true;
+
+  // "kron worklog" vs "kron worklog system"
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  if (shorter.length >= 4 && ` ${longer} `.includes(` ${shorter} `)) return true;
+
+  // Typos: allow one edit per 6 characters
+  return getEditDistance(a, b) <= Math.floor(shorter.length / 6);
+}
+
+/**
+ * Existing project names that look like the same project as a new name.
+ * Empty when the name is blank or has been used before exactly as typed.
+ */
+export function findSimilarProjects(name: string, suggestions: ProjectSuggestion[]): ProjectSuggestion[] {
+  const trimmed = name.trim();
+  if (!trimmed || suggestions.some((suggestion) => suggestion.name === trimmed)) {
+    return [];
+  }
+
+  const normalized = normalizeProjectName(trimmed);
+  return suggestions.filter((suggestion) =>
+    isNearDuplicate(normalized, normalizeProjectName(suggestion.name))
+  );
+}
@@ -0,0 +1,166 @@
+import { worklogApi } from './api';
+import { extractErrorMessage } from './error-handler';
+import { formatHours, sumHours, validateHours } from './hours';
+import { Worklog, WorklogCreateRequest } from './types';
+import { isWorklogEditable } from './timesheet-status';
+
+export interface SplitPart {
+  worklogTypeId: number;
+  hoursWorked: number;
+  projectName: string;
+  description: string;
+}
+
+export interface SplitMergeResult {
+  error: string | null;
+  // False when undoing the steps already taken failed too, so the day may
+  // have been left partially changed
+  rolledBack: boolean;
+}
+
+function toRequest(worklog: Worklog): WorklogCreateRequest {
+  return {
+    worklogTypeId: worklog.worklogTypeId,
+    workDate: worklog.workDate,
+    hoursWorked: worklog.hoursWorked,
+    projectName: worklog.projectName || '',
+    description: worklog.description,
+    tags: worklog.tags,
+  };
+}
+
+/**
+ * Validate the parts of a split, returning an error message or null when valid.
+ * The parts must add up to the original hours so the day total stays the same.
+ */
+export function validateSplit(worklog: Worklog, parts: SplitPart[]): string | null {
+  if (parts.length < 2) {
+    return 'Split the entry into at least two parts';
+  }
+
+  for (const part of parts) {
+    if (!part.worklogTypeId) {
+      return 'Please select a work type for every part';
+    }
+    const hoursError = validateHours(part.hoursWorked);
+    if (hoursError) {
+      return hoursError;
+    }
+    if (part.description.trim().length < 10) {
+      return 'Each description must be at least 10 characters';
+    }
+  }
+
+  const total = sumHours(parts);
+  if (total !== worklog.hoursWorked) {
+    return `The parts add up to ${formatHours(total)} hours instead of ${formatHours(worklog.hoursWorked)}`;
+  }
+  return null;
+}
+
+/**
+ * Turn one worklog into several: the original becomes the first part and the
+ * others are created next to it. The original is shrunk first so the day never
+ * goes over its total; on failure the new entries are deleted and the original
+ * restored.
+ */
+export async function executeSplit(worklog: Worklog, parts: SplitPart[]): Promise<SplitMergeResult> {
+  const [first, ...rest] = parts.map((part) => ({
+    ...toRequest(worklog),
+    ...part,
+    description: part.description.trim(),
+  }));
+
+  try {
+    await worklogApi.updateWorklog(worklog.id, first);
+  } catch (error) {
+    return { error: extractErrorMessage(error), rolledBack: true };
+  }
+
+  const created: Worklog[] = [];
+  for (const part of rest) {
+    try {
+      created.push(await worklogApi.createWorklog(part));
+    } catch (error) {
+      const rollbacks = await Promise.allSettled([
+        ...created.map((w) => worklogApi.deleteWorklog(w.id)),
+        worklogApi.updateWorklog(worklog.id, toRequest(worklog)),
+      ]);
+      return {
+        error: extractErrorMessage(error),
+        rolledBack: rollbacks.every((result) => result.status === 'fulfilled'),
+      };
+    }
+  }
+
+  return { error: null, rolledBack: false };
+}
+
+/**
+ * Other entries the worklog can be merged with: same day, type and project,
+ * and still editable
+ */
+export function getMergeCandidates(worklog: Worklog, worklogs: Worklog[]): Worklog[] {
+  return worklogs.filter(
+    (w) =>
+      w.id !== worklog.id &&
+      isWorklogEditable(w) &&
+      w.workDate === worklog.workDate &&
+      w.worklogTypeId === worklog.worklogTypeId &&
+      (w.projectName || '') === (worklog.projectName || '')
+  );
+}
+
+export function validateMerge(worklogs: Worklog[], description: string): string | null {
+  if (worklogs.length < 2) {
+    return 'Select at least two entries to merge';
+  }
+  if (description.trim().length < 10) {
+    return 'Description must be at least 10 characters';
+  }
+  return validateHours(sumHours(worklogs));
+}
+
+/**
+ * Merge worklogs into the first one, which takes their combined hours and the
+ * given description. The others are deleted before the kept entry grows so the
+ * day never goes over its total; on failure deleted entries are recreated.
+ */
+export async function executeMerge(worklogs: Worklog[], description: string): Promise<SplitMergeResult> {
+  const [kept, ...others] = worklogs;
+
+  const deleted: Worklog[] = [];
+  let failure: unknown = null;
+
+  for (const worklog of others) {
+    try {
+      await worklogApi.deleteWorklog(worklog.id);
+      deleted.push(worklog);
+    } catch (error) {
+      failure = error;
+      break;
+    }
+  }
+
+  if (!failure) {
+    try {
+      await worklogApi.updateWorklog(kept.id, {
+        ...toRequest(kept),
+        hoursWorked: sumHours(worklogs),
+        description: description.trim(),
+        tags: Array.from(new Set(worklogs.flatMap((w) => w.tags || []))),
+      });
+      return { error: null, rolledBack: false };
+    } catch (error) {
+      failure = error;
+    }
+  }
+
+  const rollbacks = await Promise.allSettled(
+    deleted.map((worklog) => worklogApi.createWorklog(toRequest(worklog)))
+  );
+  return {
+    error: extractErrorMessage(failure),
+    rolledBack: rollbacks.every((result) => result.status === 'fulfilled'),
+  };
+}
@@ -0,0 +1,118 @@
+import { worklogApi } from './api';
+import { extractErrorMessage, isNetworkError } from './error-handler';
+import { readLocalJson, writeLocalJson } from './local-storage';
+import { WorklogCreateRequest } from './types';
+
+// Stored per user, so whoever logs in next never replays someone else's changes
+function getStorageKey(userId: number): string {
+  return `worklog-sync-queue:${userId}`;
+}
+
+export const SYNC_QUEUE_CHANGED_EVENT = 'worklog-sync-queue-changed';
+
+// A create (worklogId null) or update saved while offline, waiting to be sent
+export interface QueuedWorklogChange {
+  id: string;
+  // The user who made the change; only they can send it
+  ownerId: number;
+  worklogId: number | null;
+  payload: WorklogCreateRequest;
+  queuedAt: number;
+  // Set when the server rejected the change; it is then no longer replayed
+  error: string | null;
+}
+
+export interface ReplayResult {
+  synced: number;
+  failed: number;
+}
+
+export function loadSyncQueue(userId: number): QueuedWorklogChange[] {
+  return readLocalJson<QueuedWorklogChange[]>(getStorageKey(userId), []).filter(
+    (change) => change.ownerId === userId
+  );
+}
+
+/**
+ * Persist the queue and notify listeners in this tab; other tabs pick the
+ * change up through the storage event
+ */
+function saveSyncQueue(userId: number, queue: QueuedWorklogChange[]): void {
+  writeLocalJson(getStorageKey(userId), queue);
+  window.dispatchEvent(new Event(SYNC_QUEUE_CHANGED_EVENT));
+}
+
+/**
+ * Queue a change for later. A second update to a worklog that is still queued
+ * replaces the first one in place, so the replay order stays the same.
+ */
+export function enqueueWorklogChange(
+  userId: number,
+  worklogId: number | null,
+  payload: WorklogCreateRequest
+): void {
+  const queue = loadSyncQueue(userId);
+  const existing = worklogId
+    ? queue.find((change) => change.worklogId === worklogId && !change.error)
+    : undefined;
+
+  if (existing) {
+    existing.payload = payload;
+  } else {
+    queue.push({
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      ownerId: userId,
+      worklogId,
+      payload,
+      queuedAt: Date.now(),
+      error: null,
+    });
+  }
+  saveSyncQueue(userId, queue);
+}
+
+export function removeQueuedChange(userId: number, id: string): void {
+  saveSyncQueue(userId, loadSyncQueue(userId).filter((change) => change.id !== id));
+}
+
+let isReplaying = false;
+
+/**
+ * Send queued changes one by one in the order they were made. Stops at the
+ * first network failure so the rest keeps its order for the next attempt;
+ * changes the server rejects are kept with their error for the user to fix.
+ */
+export async function replaySyncQueue(userId: number): Promise<ReplayResult> {
+  const result: ReplayResult = { synced: 0, failed: 0 };
+  if (isReplaying) return result;
+
+  isReplaying = true;
+  try {
+    for (const change of loadSyncQueue(userId)) {
+      if (change.error) continue;
+
+      try {
+        if (change.worklogId) {
+          await worklogApi.updateWorklog(change.worklogId, change.payload);
+        } else {
+          await worklogApi.createWorklog(change.payload);
+        }
+        removeQueuedChange(userId, change.id);
+        result.synced++;
+      } catch (error) {
+        if (isNetworkError(error)) break;
+
+        saveSyncQueue(
+          userId,
+          loadSyncQueue(userId).map((c) =>
+            c.id === change.id ? { ...c, error: extractErrorMessage(error) } : c
+          )
+        );
+        result.failed++;
+      }
+    }
+  } finally {
+    isReplaying = false;
+  }
+  return result;
+}
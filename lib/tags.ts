@@ -0,0 +1,74 @@
+import { sumHours } from './hours';
+import { Worklog } from './types';
+
+export interface TagBreakdown {
+  tagName: string;
+  hours: number;
+  percentage: number;
+}
+
+/**
+ * Tags are stored lowercase with dashes instead of spaces ("Code Review" -> "code-review")
+ */
+export function normalizeTag(tag: string): string {
+  return tag
+    .trim()
+    .toLowerCase()
+    .replace(/^#/, '')
+    .replace(/\s+/g, '-');
+}
+
+export function getWorklogTags(worklog: Worklog): string[] {
+  return worklog.tags || [];
+}
+
+/**
+ * Tags used in the given worklogs, most used first
+ */
+export function collectTags(worklogs: Worklog[]): string[] {
+  const counts = new Map<string, number>();
+  worklogs.forEach((worklog) => {
+    getWorklogTags(worklog).forEach((tag) => counts.set(tag, (counts.get(tag) || 0) + 1));
+  });
+
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([tag]) => tag);
+}
+
+/**
+ * Worklogs carrying every one of the selected tags (all worklogs when none are selected)
+ */
+export function filterWorklogsByTags(worklogs: Worklog[], tags: string[]): Worklog[] {
+  if (tags.length === 0) return worklogs;
+  return worklogs.filter((worklog) => {
+    const worklogTags = getWorklogTags(worklog);
+    return tags.every((tag) => worklogTags.includes(tag));
+  });
+}
+
+/**
+ * Hours per tag, most hours first. A worklog counts fully towards each of its
+ * tags, so percentages are of the total hours and can add up to more than 100.
+ */
+export function buildTagBreakdown(worklogs: Worklog[]): TagBreakdown[] {
+  const totalHours = sumHours(worklogs);
+  const worklogsByTag = new Map<string, Worklog[]>();
+
+  worklogs.forEach((worklog) => {
+    getWorklogTags(worklog).forEach((tag) =>
+      worklogsByTag.set(tag, [...(worklogsByTag.get(tag) || []), worklog])
+    );
+  });
+
+  return Array.from(worklogsByTag.entries())
+    .map(([tagName, tagWorklogs]) => {
+      const hours = sumHours(tagWorklogs);
+      return {
+        tagName,
+        hours,
+        percentage: totalHours > 0 ? (hours / totalHours) * 100 : 0,
+      };
+    })
+    .sort((a, b) => b.hours - a.hours);
+}
@@ -0,0 +1,67 @@
+import { readLocalJson, writeLocalJson } from './local-storage';
+import { WorklogTemplate } from './types';
+
+/**
+ * Persistence for personal worklog templates. The default adapter keeps them in
+ * the browser; a backend-backed adapter can be registered with
+ * setTemplateStorageAdapter once an endpoint exists.
+ */
+export interface TemplateStorageAdapter {
+  list: (userId: number) => Promise<WorklogTemplate[]>;
+  save: (userId: number, template: WorklogTemplate) => Promise<WorklogTemplate>;
+  remove: (userId: number, templateId: string) => Promise<void>;
+}
+
+const storageKey = (userId: number) => `worklog-templates:${userId}`;
+
+export const localTemplateStorage: TemplateStorageAdapter = {
+  list: async (userId) => {
+    return readLocalJson<WorklogTemplate[]>(storageKey(userId), []);
+  },
+
+  save: async (userId, template) => {
+    const templates = readLocalJson<WorklogTemplate[]>(storageKey(userId), []);
+    const exists = templates.some((t) => t.id === template.id);
+    writeLocalJson(
+      storageKey(userId),
+      exists
+        ? templates.map((t) => (t.id === template.id ? template : t))
+        : [...templates, template]
+    );
+    return template;
+  },
+
+  remove: async (userId, templateId) => {
+    const templates = readLocalJson<WorklogTemplate[]>(storageKey(userId), []);
+    writeLocalJson(
+      storageKey(userId),
+      templates.filter((t) => t.id !== templateId)
+    );
+  },
+};
+
+let storageAdapter: TemplateStorageAdapter = localTemplateStorage;
+
+export function setTemplateStorageAdapter(adapter: TemplateStorageAdapter): void {
+  storageAdapter = adapter;
+}
+
+export function createTemplateId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Template APIs
+export const templateApi = {
+  getTemplates: async (userId: number): Promise<WorklogTemplate[]> => {
+    const templates = await storageAdapter.list(userId);
+    return templates.slice().sort((a, b) => a.name.localeCompare(b.name));
+  },
+
+  saveTemplate: async (userId: number, template: WorklogTemplate): Promise<WorklogTemplate> => {
+    return storageAdapter.save(userId, template);
+  },
+
+  deleteTemplate: async (userId: number, templateId: string): Promise<void> => {
+    await storageAdapter.remove(userId, templateId);
+  },
+};
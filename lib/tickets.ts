@@ -0,0 +1,93 @@
+import { Worklog } from './types';
+
+// Regex source for ticket keys in descriptions, e.g. "WL-123"
+export const TICKET_KEY_PATTERN =
+  process.env.NEXT_PUBLIC_TICKET_KEY_PATTERN || '\\b[A-Z][A-Z0-9]+-\\d+\\b';
+
+// Link target for a ticket, with {key} replaced by the ticket key. Keys are
+// shown as plain text when this is not set.
+export const TICKET_URL_TEMPLATE = process.env.NEXT_PUBLIC_TICKET_URL_TEMPLATE || '';
+
+export interface TextSegment {
+  text: string;
+  ticketKey?: string;
+}
+
+export interface TicketHours {
+  key: string;
+  hours: number;
+  worklogCount: number;
+  employeeNames: string[];
+}
+
+function createTicketRegex(): RegExp {
+  return new RegExp(TICKET_KEY_PATTERN, 'g');
+}
+
+/**
+ * Distinct ticket keys mentioned in a text, in order of appearance
+ */
+export function extractTicketKeys(text: string | null | undefined): string[] {
+  if (!text) return [];
+  return Array.from(new Set(text.match(createTicketRegex()) || []));
+}
+
+export function getTicketUrl(key: string): string | null {
+  return TICKET_URL_TEMPLATE ? TICKET_URL_TEMPLATE.replace(/\{key\}/g, encodeURIComponent(key)) : null;
+}
+
+/**
+ * Split a text into plain parts and ticket keys so the keys can be rendered as links
+ */
+export function splitTicketText(text: string): TextSegment[] {
+  const segments: TextSegment[] = [];
+  const regex = createTicketRegex();
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = regex.exec(text)) !== null) {
+    // Guard against patterns that can match an empty string
+    if (match[0] === '') {
+      regex.lastIndex++;
+      continue;
+    }
+    if (match.index > lastIndex) {
+      segments.push({ text: text.slice(lastIndex, match.index) });
+    }
+    segments.push({ text: match[0], ticketKey: match[0] });
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ text: text.slice(lastIndex) });
+  }
+  return segments;
+}
+
+export function hasTicketKey(worklog: Worklog, key: string): boolean {
+  return extractTicketKeys(worklog.description).includes(key);
+}
+
+/**
+ * Total hours per ticket key, most hours first. A worklog mentioning several
+ * tickets has its hours split evenly between them so the totals still add up
+ * to the hours logged.
+ */
+export function aggregateHoursByTicket(worklogs: Worklog[]): TicketHours[] {
+  const byKey = new Map<string, TicketHours>();
+
+  worklogs.forEach((worklog) => {
+    const keys = extractTicketKeys(worklog.description);
+    keys.forEach((key) => {
+      const entry = byKey.get(key) || { key, hours: 0, worklogCount: 0, employeeNames: [] };
+      entry.hours += worklog.hoursWorked / keys.length;
+      entry.worklogCount += 1;
+      if (!entry.employeeNames.includes(worklog.employeeName)) {
+        entry.employeeNames.push(worklog.employeeName);
+      }
+      byKey.set(key, entry);
+    });
+  });
+
+  return Array.from(byKey.values()).sort((a, b) => b.hours - a.hours);
+}
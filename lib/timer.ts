@@ -0,0 +1,172 @@
+import { format } from 'date-fns';
+import { HOURS_INCREMENT, roundHours } from './hours';
+import { readLocalJson, writeLocalJson } from './local-storage';
+
+const STORAGE_KEY = 'worklog-timers';
+export const TIMERS_CHANGED_EVENT = 'worklog-timers-changed';
+
+export interface TimerSession {
+  id: string;
+  worklogTypeId: number;
+  worklogTypeName: string;
+  projectName: string;
+  // Day (yyyy-MM-dd) the session was started on; missing for sessions stored by older versions
+  startDate?: string;
+  // Epoch milliseconds when the session was last resumed, null while paused
+  runningSince: number | null;
+  // Time accumulated before the last resume
+  accumulatedMs: number;
+}
+
+export interface TimerGroup {
+  key: string;
+  worklogTypeId: number;
+  worklogTypeName: string;
+  projectName: string;
+  sessions: TimerSession[];
+}
+
+export function getTimerGroupKey(worklogTypeId: number, projectName: string): string {
+  return `${worklogTypeId}:${projectName.trim().toLowerCase()}`;
+}
+
+export function loadTimers(): TimerSession[] {
+  return readLocalJson<TimerSession[]>(STORAGE_KEY, []);
+}
+
+/**
+ * Persist timers and notify listeners in this tab; other tabs pick the change
+ * up through the storage event
+ */
+export function saveTimers(sessions: TimerSession[]): void {
+  writeLocalJson(STORAGE_KEY, sessions);
+  window.dispatchEvent(new Event(TIMERS_CHANGED_EVENT));
+}
+
+export function getElapsedMs(session: TimerSession, now: number = Date.now()): number {
+  return session.accumulatedMs + (session.runningSince ? now - session.runningSince : 0);
+}
+
+function pause(session: TimerSession, now: number): TimerSession {
+  if (!session.runningSince) return session;
+  return { ...session, accumulatedMs: getElapsedMs(session, now), runningSince: null };
+}
+
+/**
+ * Start a new timer session, pausing whichever one is running. Only one
+ * session runs at a time; the others stay paused until resumed or stopped.
+ */
+export function startTimer(
+  sessions: TimerSession[],
+  worklogTypeId: number,
+  worklogTypeName: string,
+  projectName: string,
+  now: number = Date.now()
+): TimerSession[] {
+  return [
+    ...sessions.map((session) => pause(session, now)),
+    {
+      id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      worklogTypeId,
+      worklogTypeName,
+      projectName: projectName.trim(),
+      startDate: format(now, 'yyyy-MM-dd'),
+      runningSince: now,
+      accumulatedMs: 0,
+    },
+  ];
+}
+
+export function pauseTimer(
+  sessions: TimerSession[],
+  sessionId: string,
+  now: number = Date.now()
+): TimerSession[] {
+  return sessions.map((session) => (session.id === sessionId ? pause(session, now) : session));
+}
+
+export function resumeTimer(
+  sessions: TimerSession[],
+  sessionId: string,
+  now: number = Date.now()
+): TimerSession[] {
+  return sessions.map((session) =>
+    session.id === sessionId ? { ...session, runningSince: now } : pause(session, now)
+  );
+}
+
+/**
+ * Group sessions by worklog type and project; each group becomes one worklog
+ */
+export function groupTimers(sessions: TimerSession[]): TimerGroup[] {
+  const groups = new Map<string, TimerGroup>();
+
+  sessions.forEach((session) => {
+    const key = getTimerGroupKey(session.worklogTypeId, session.projectName);
+    if (!groups.has(key)) {
+      groups.set(key, {
+        key,
+        worklogTypeId: session.worklogTypeId,
+        worklogTypeName: session.worklogTypeName,
+        projectName: session.projectName,
+        sessions: [],
+      });
+    }
+    groups.get(key)!.sessions.push(session);
+  });
+
+  return Array.from(groups.values());
+}
+
+export function getGroupElapsedMs(group: TimerGroup, now: number = Date.now()): number {
+  return group.sessions.reduce((sum, session) => sum + getElapsedMs(session, now), 0);
+}
+
+/**
+ * The day a group's time is logged on: the day its first session was started
+ */
+export function getGroupWorkDate(group: TimerGroup, now: number = Date.now()): string {
+  const startDates = group.sessions.map((session) => session.startDate || format(now, 'yyyy-MM-dd'));
+  return startDates.sort()[0];
+}
+
+function isInGroup(session: TimerSession, groupKey: string): boolean {
+  return getTimerGroupKey(session.worklogTypeId, session.projectName) === groupKey;
+}
+
+/**
+ * Pause every session of a group so its merged time stops growing while the
+ * resulting worklog is being reviewed
+ */
+export function pauseTimerGroup(
+  sessions: TimerSession[],
+  groupKey: string,
+  now: number = Date.now()
+): TimerSession[] {
+  return sessions.map((session) => (isInGroup(session, groupKey) ? pause(session, now) : session));
+}
+
+/**
+ * Remove a group once its time has been recorded as a worklog
+ */
+export function clearTimerGroup(groupKey: string): void {
+  saveTimers(loadTimers().filter((session) => !isInGroup(session, groupKey)));
+}
+
+/**
+ * Round elapsed time to the logging increment, recording at least one increment
+ */
+export function roundTimerHours(elapsedMs: number): number {
+  return Math.max(HOURS_INCREMENT, roundHours(elapsedMs / (60 * 60 * 1000)));
+}
+
+/**
+ * Format elapsed time as h:mm:ss
+ */
+export function formatElapsed(elapsedMs: number): string {
+  const totalSeconds = Math.floor(elapsedMs / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+}
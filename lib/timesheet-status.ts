@@ -0,0 +1,78 @@
+import { format, parseISO, subDays } from 'date-fns';
+import { worklogApi } from './api';
+import { TimesheetStatus, TimesheetSubmission, Worklog } from './types';
+
+export const TIMESHEET_STATUS_LABELS: Record<TimesheetStatus, string> = {
+  DRAFT: 'Draft',
+  SUBMITTED: 'Submitted',
+  APPROVED: 'Approved',
+  REJECTED: 'Rejected',
+};
+
+/**
+ * Badge color classes for a timesheet status
+ */
+export function getTimesheetStatusColor(status: TimesheetStatus): string {
+  switch (status) {
+    case 'SUBMITTED':
+      return 'bg-yellow-100 text-yellow-800';
+    case 'APPROVED':
+      return 'bg-green-100 text-green-800';
+    case 'REJECTED':
+      return 'bg-red-100 text-red-800';
+    default:
+      return 'bg-gray-100 text-gray-700';
+  }
+}
+
+/**
+ * Submitted weeks wait for review and approved weeks are final, so neither can be changed.
+ * Rejected weeks are open again for corrections.
+ */
+export function isLockedStatus(status: TimesheetStatus | undefined): boolean {
+  return status === 'SUBMITTED' || status === 'APPROVED';
+}
+
+export function getWorklogStatus(worklog: Worklog): TimesheetStatus {
+  return worklog.timesheetStatus || 'DRAFT';
+}
+
+/**
+ * Whether a worklog can be edited or deleted: the server must allow it and its week must not be locked
+ */
+export function isWorklogEditable(worklog: Worklog): boolean {
+  return worklog.isEditable && !isLockedStatus(worklog.timesheetStatus);
+}
+
+/**
+ * Explanation shown when a change is refused because its week is submitted or approved
+ */
+export function getLockedWeekMessage(status: TimesheetStatus): string {
+  return status === 'APPROVED'
+    ? 'This week has been approved and can no longer be changed.'
+    : 'This week is waiting for approval and cannot be changed.';
+}
+
+/**
+ * The submitted or approved week of the current user covering a date, if any
+ */
+export function findLockedSubmission(
+  date: string,
+  submissions: TimesheetSubmission[]
+): TimesheetSubmission | undefined {
+  return submissions.find(
+    (s) => isLockedStatus(s.status) && s.weekStartDate <= date && date <= s.weekEndDate
+  );
+}
+
+/**
+ * Load the current user's submissions for every week touching a date range.
+ * Weeks are looked up by their start, so the range is widened by the week before.
+ */
+export async function getMyTimesheetsCovering(
+  startDate: string,
+  endDate: string
+): Promise<TimesheetSubmission[]> {
+  const from = format(subDays(parseISO(startDate), 6), 'yyyy-MM-dd');
+  return worklogApi.getMyTimesheets(from, endDate);
+}
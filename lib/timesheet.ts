@@ -0,0 +1,247 @@
+import { eachDayOfInterval, endOfISOWeek, format, parseISO, startOfISOWeek } from 'date-fns';
+import { worklogApi } from './api';
+import { extractErrorMessage } from './error-handler';
+import { sumHours, validateHours } from './hours';
+import { PeriodLock, Worklog, WorklogCreateRequest } from './types';
+import { isWorklogEditable } from './timesheet-status';
+import { findPeriodLock } from './period-locks';
+
+export interface TimesheetCell {
+  // Existing worklogs that fall into this row/day
+  worklogs: Worklog[];
+  // Current (possibly edited) value of the cell input
+  value: string;
+}
+
+export interface TimesheetRow {
+  key: string;
+  worklogTypeId: number;
+  worklogTypeName: string;
+  projectName: string;
+  // Used as the description of newly created entries in this row
+  description: string;
+  cells: Record<string, TimesheetCell>;
+}
+
+export type TimesheetChange =
+  | { kind: 'create'; cellKey: string; payload: WorklogCreateRequest }
+  | { kind: 'update'; cellKey: string; id: number; payload: WorklogCreateRequest }
+  | { kind: 'delete'; cellKey: string; id: number };
+
+/**
+ * The timesheet week (Monday to Sunday) containing a date. Weeks are submitted and
+ * approved by this fixed range, whatever first day of week the user has chosen.
+ */
+export function getTimesheetWeek(baseDate: Date): { startDate: string; endDate: string } {
+  return {
+    startDate: format(startOfISOWeek(baseDate), 'yyyy-MM-dd'),
+    endDate: format(endOfISOWeek(baseDate), 'yyyy-MM-dd'),
+  };
+}
+
+/**
+ * Get every date (yyyy-MM-dd) between two dates, inclusive
+ */
+export function getTimesheetDays(startDate: string, endDate: string): string[] {
+  return eachDayOfInterval({
+    start: parseISO(startDate),
+    end: parseISO(endDate),
+  }).map((day) => format(day, 'yyyy-MM-dd'));
+}
+
+export function getRowKey(worklogTypeId: number, projectName: string): string {
+  return `${worklogTypeId}:${projectName.trim().toLowerCase()}`;
+}
+
+export function getCellKey(rowKey: string, date: string): string {
+  return `${rowKey}@${date}`;
+}
+
+/**
+ * Create a row with empty cells for each of the given days
+ */
+export function createTimesheetRow(
+  worklogTypeId: number,
+  worklogTypeName: string,
+  projectName: string,
+  days: string[]
+): TimesheetRow {
+  return {
+    key: getRowKey(worklogTypeId, projectName),
+    worklogTypeId,
+    worklogTypeName,
+    projectName: projectName.trim(),
+    description: '',
+    cells: Object.fromEntries(days.map((day) => [day, { worklogs: [], value: '' }])),
+  };
+}
+
+/**
+ * Group existing worklogs into rows (worklog type + project) and day cells
+ */
+export function buildTimesheetRows(worklogs: Worklog[], days: string[]): TimesheetRow[] {
+  const rows = new Map<string, TimesheetRow>();
+
+  worklogs
+    .filter((worklog) => days.includes(worklog.workDate))
+    .forEach((worklog) => {
+      const projectName = worklog.projectName || '';
+      const key = getRowKey(worklog.worklogTypeId, projectName);
+
+      if (!rows.has(key)) {
+        rows.set(
+          key,
+          createTimesheetRow(worklog.worklogTypeId, worklog.worklogTypeName, projectName, days)
+        );
+      }
+
+      const cell = rows.get(key)!.cells[worklog.workDate];
+      cell.worklogs.push(worklog);
+      cell.value = String(sumHours(cell.worklogs));
+    });
+
+  return Array.from(rows.values()).sort(
+    (a, b) =>
+      a.worklogTypeName.localeCompare(b.worklogTypeName) ||
+      a.projectName.localeCompare(b.projectName)
+  );
+}
+
+/**
+ * A cell can be edited inline only when it maps to at most one editable worklog
+ * and its day is not in a closed period.
+ * Cells holding several entries must be changed from the worklog list instead.
+ */
+export function isCellEditable(cell: TimesheetCell, lock?: PeriodLock): boolean {
+  return !lock && cell.worklogs.length <= 1 && cell.worklogs.every(isWorklogEditable);
+}
+
+/**
+ * Validate a cell value, returning an error message or null when valid.
+ * An empty or zero value means "no entry" for that day.
+ */
+export function validateCellValue(value: string): string | null {
+  if (value.trim() === '' || Number(value) === 0) return null;
+  return validateHours(Number(value));
+}
+
+function parseCellHours(value: string): number {
+  const hours = Number(value);
+  return value.trim() === '' || isNaN(hours) ? 0 : hours;
+}
+
+/**
+ * Compare the edited grid against the worklogs it was built from and return the
+ * creates, updates and deletes needed to persist it
+ */
+export function getTimesheetChanges(rows: TimesheetRow[], locks: PeriodLock[]): TimesheetChange[] {
+  const changes: TimesheetChange[] = [];
+
+  rows.forEach((row) => {
+    Object.entries(row.cells).forEach(([date, cell]) => {
+      if (!isCellEditable(cell, findPeriodLock(date, locks))) return;
+
+      const cellKey = getCellKey(row.key, date);
+      const hours = parseCellHours(cell.value);
+      const existing = cell.worklogs[0];
+
+      if (!existing) {
+        if (hours > 0) {
+          changes.push({
+            kind: 'create',
+            cellKey,
+            payload: {
+              worklogTypeId: row.worklogTypeId,
+              workDate: date,
+              hoursWorked: hours,
+              projectName: row.projectName,
+              description: row.description.trim(),
+            },
+          });
+        }
+        return;
+      }
+
+      if (hours === 0) {
+        changes.push({ kind: 'delete', cellKey, id: existing.id });
+      } else if (hours !== existing.hoursWorked) {
+        changes.push({
+          kind: 'update',
+          cellKey,
+          id: existing.id,
+          payload: {
+            worklogTypeId: existing.worklogTypeId,
+            workDate: existing.workDate,
+            hoursWorked: hours,
+            projectName: existing.projectName || '',
+            description: existing.description,
+            tags: existing.tags,
+          },
+        });
+      }
+    });
+  });
+
+  return changes;
+}
+
+/**
+ * Carry edits for the given cells over from one grid onto a freshly loaded one,
+ * so that failed changes stay visible after the saved ones are reloaded
+ */
+export function restoreTimesheetEdits(
+  freshRows: TimesheetRow[],
+  editedRows: TimesheetRow[],
+  cellKeys: string[]
+): TimesheetRow[] {
+  const rows = freshRows.map((row) => ({ ...row, cells: { ...row.cells } }));
+
+  editedRows.forEach((edited) => {
+    Object.entries(edited.cells).forEach(([date, cell]) => {
+      if (!cellKeys.includes(getCellKey(edited.key, date))) return;
+
+      let row = rows.find((r) => r.key === edited.key);
+      if (!row) {
+        row = {
+          ...edited,
+          cells: Object.fromEntries(
+            Object.keys(edited.cells).map((day) => [day, { worklogs: [], value: '' }])
+          ),
+        };
+        rows.push(row);
+      }
+      row.description = edited.description;
+      row.cells[date] = { ...row.cells[date], value: cell.value };
+    });
+  });
+
+  return rows;
+}
+
+/**
+ * Persist timesheet changes, returning an error message per failed cell
+ */
+export async function saveTimesheetChanges(
+  changes: TimesheetChange[]
+): Promise<Record<string, string>> {
+  const results = await Promise.allSettled(
+    changes.map((change) => {
+      switch (change.kind) {
+        case 'create':
+          return worklogApi.createWorklog(change.payload);
+        case 'update':
+          return worklogApi.updateWorklog(change.id, change.payload);
+        case 'delete':
+          return worklogApi.deleteWorklog(change.id);
+      }
+    })
+  );
+
+  const errors: Record<string, string> = {};
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      errors[changes[index].cellKey] = extractErrorMessage(result.reason);
+    }
+  });
+  return errors;
+}
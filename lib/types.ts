@@ -30,6 +30,9 @@ export interface WorklogType {
   isActive: boolean;
 }
 
+// Lifecycle of a submitted week: DRAFT -> SUBMITTED -> APPROVED, or REJECTED back to editable
+export type TimesheetStatus = 'DRAFT' | 'SUBMITTED' | 'APPROVED' | 'REJECTED';
+
 export interface Worklog {
   id: number;
   employeeId: number;
@@ -41,15 +44,109 @@ export interface Worklog {
   daysWorked: number;
   description: string;
   projectName: string;
+  tags?: string[];
   isEditable: boolean;
+  // Status of the week the entry belongs to; missing means the week was never submitted
+  timesheetStatus?: TimesheetStatus;
+  commentCount?: number;
+  // Comments the current user has not seen yet
+  unreadCommentCount?: number;
+  // Set by a lead who wants the author to explain the entry
+  needsClarification?: boolean;
+  // Who typed the entry in, when it was not the employee (e.g. their team lead)
+  enteredById?: number | null;
+  enteredByName?: string | null;
+}
+
+export interface WorklogComment {
+  id: number;
+  worklogId: number;
+  authorId: number;
+  authorName: string;
+  body: string;
+  createdAt: string;
+}
+
+export interface TimesheetSubmission {
+  id: number;
+  employeeId: number;
+  employeeName: string;
+  weekStartDate: string;
+  weekEndDate: string;
+  status: TimesheetStatus;
+  totalHours: number;
+  submittedAt: string | null;
+  reviewedAt: string | null;
+  reviewedByName: string | null;
+  reviewComment: string | null;
+}
+
+export type WorklogAuditAction = 'CREATE' | 'UPDATE' | 'DELETE';
+
+export interface WorklogFieldChange {
+  // Worklog property name, e.g. "hoursWorked"
+  field: string;
+  oldValue: string | null;
+  newValue: string | null;
+}
+
+// One recorded change to a worklog; creates and deletes list every field
+export interface WorklogRevision {
+  id: number;
+  worklogId: number;
+  employeeId: number;
+  employeeName: string;
+  workDate: string;
+  action: WorklogAuditAction;
+  actorId: number;
+  actorName: string;
+  changedAt: string;
+  changes: WorklogFieldChange[];
+}
+
+export interface WorklogAuditFilter {
+  startDate: string;
+  endDate: string;
+  employeeId?: number;
+  action?: WorklogAuditAction;
+}
+
+// A closed date range in which a department's worklogs can no longer be changed
+export interface PeriodLock {
+  id: number;
+  departmentId: number;
+  departmentName: string;
+  startDate: string;
+  endDate: string;
+  reason: string;
+  lockedByName: string;
+  lockedAt: string;
+}
+
+export interface PeriodLockRequest {
+  startDate: string;
+  endDate: string;
+  reason: string;
 }
 
 export interface WorklogCreateRequest {
+  // Team leads and directors can log for a report; defaults to the current user
+  employeeId?: number;
   worklogTypeId: number;
   workDate: string;
   hoursWorked: number;
   description: string;
   projectName: string;
+  tags?: string[];
+}
+
+export interface WorklogTemplate {
+  id: string;
+  name: string;
+  worklogTypeId: number;
+  projectName: string;
+  defaultHours: number;
+  description: string;
 }
 
 export interface QuickStats {
@@ -126,6 +223,14 @@ export interface DashboardResponse {
   };
 }
 
+export interface WorkSchedule {
+  effectiveFrom: string;
+  // null while the schedule is still in effect
+  effectiveTo: string | null;
+  // Contracted hours per weekday, indexed like Date.getDay(): 0 = Sunday ... 6 = Saturday
+  weekdayHours: number[];
+}
+
 export interface Employee {
   id: number;
   employeeCode: string;
@@ -142,6 +247,8 @@ export interface Employee {
   isActive: boolean;
   startDate: string;
   endDate: string;
+  // Employees without a schedule on record work the standard full-time week
+  workSchedules?: WorkSchedule[];
 }
 
  export interface DepartmentSummary {
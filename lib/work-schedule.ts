@@ -0,0 +1,110 @@
+import { eachDayOfInterval, format, getDay, parseISO } from 'date-fns';
+import { HOURS_PER_DAY } from './date-utils';
+import { roundHours } from './hours';
+import { getHoliday } from './holidays';
+import { WorkSchedule } from './types';
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/** Full-time Monday to Friday week, used for anyone without a schedule on record */
+export const STANDARD_WORK_SCHEDULE: WorkSchedule = {
+  effectiveFrom: '1970-01-01',
+  effectiveTo: null,
+  weekdayHours: [0, HOURS_PER_DAY, HOURS_PER_DAY, HOURS_PER_DAY, HOURS_PER_DAY, HOURS_PER_DAY, 0],
+};
+
+/**
+ * Get the schedule in effect on a yyyy-MM-dd date, falling back to the standard week
+ */
+export function getScheduleForDate(schedules: WorkSchedule[] | undefined, date: string): WorkSchedule {
+  const schedule = (schedules || []).find(
+    (s) => s.effectiveFrom <= date && (!s.effectiveTo || date <= s.effectiveTo)
+  );
+  return schedule || STANDARD_WORK_SCHEDULE;
+}
+
+/**
+ * Hours expected on a date under the given schedules.
+ * Holidays expect nothing and half-day holidays half of the scheduled hours.
+ */
+export function getScheduledHours(date: string, schedules?: WorkSchedule[]): number {
+  const hours = getScheduleForDate(schedules, date).weekdayHours[getDay(parseISO(date))] || 0;
+  const holiday = getHoliday(date);
+  if (!holiday) return hours;
+  return holiday.halfDay ? hours / 2 : 0;
+}
+
+function getScheduledDates(startDate: string, endDate: string): string[] {
+  if (startDate > endDate) return [];
+  return eachDayOfInterval({ start: parseISO(startDate), end: parseISO(endDate) }).map((day) =>
+    format(day, 'yyyy-MM-dd')
+  );
+}
+
+/**
+ * Calculate expected work hours between two dates under an employee's schedules
+ */
+export function calculateScheduledHours(startDate: string, endDate: string, schedules?: WorkSchedule[]): number {
+  const total = getScheduledDates(startDate, endDate).reduce((sum, date) => sum + getScheduledHours(date, schedules), 0);
+  return roundHours(total, 0.01);
+}
+
+/**
+ * Calculate the number of days an employee is scheduled to work between two dates.
+ * Half-day holidays count as half a day.
+ */
+export function calculateScheduledDays(startDate: string, endDate: string, schedules?: WorkSchedule[]): number {
+  return getScheduledDates(startDate, endDate).reduce((total, date) => {
+    const hours = getScheduleForDate(schedules, date).weekdayHours[getDay(parseISO(date))] || 0;
+    if (hours <= 0) return total;
+    const holiday = getHoliday(date);
+    if (!holiday) return total + 1;
+    return total + (holiday.halfDay ? 0.5 : 0);
+  }, 0);
+}
+
+/**
+ * Total contracted hours in a week of a schedule
+ */
+export function getWeeklyHours(schedule: WorkSchedule): number {
+  return roundHours(schedule.weekdayHours.reduce((total, hours) => total + (hours || 0), 0), 0.01);
+}
+
+/**
+ * Whether an employee works the standard full-time week throughout a period
+ */
+export function hasStandardSchedule(startDate: string, endDate: string, schedules?: WorkSchedule[]): boolean {
+  return getScheduledDates(startDate, endDate).every((date) => {
+    const schedule = getScheduleForDate(schedules, date);
+    return schedule.weekdayHours.every((hours, day) => (hours || 0) === STANDARD_WORK_SCHEDULE.weekdayHours[day]);
+  });
+}
+
+/**
+ * Describe a schedule's working days, e.g. "32h/week: Mon-Thu 8h"
+ */
+export function describeWorkSchedule(schedule: WorkSchedule): string {
+  // List Monday first, Sunday last
+  const days = [1, 2, 3, 4, 5, 6, 0]
+    .filter((day) => (schedule.weekdayHours[day] || 0) > 0)
+    .map((day) => ({ name: WEEKDAY_NAMES[day], hours: schedule.weekdayHours[day] }));
+
+  if (days.length === 0) return 'No working days';
+
+  // Collapse runs of consecutive days with the same hours, e.g. Mon-Thu 8h
+  const groups: Array<{ first: string; last: string; hours: number }> = [];
+  days.forEach((day, index) => {
+    const previous = groups[groups.length - 1];
+    const isConsecutive = index > 0 && (WEEKDAY_NAMES.indexOf(days[index - 1].name) + 1) % 7 === WEEKDAY_NAMES.indexOf(day.name);
+    if (previous && isConsecutive && previous.hours === day.hours) {
+      previous.last = day.name;
+    } else {
+      groups.push({ first: day.name, last: day.name, hours: day.hours });
+    }
+  });
+
+  const summary = groups
+    .map((group) => `${group.first === group.last ? group.first : `${group.first}-${group.last}`} ${group.hours}h`)
+    .join(', ');
+  return `${getWeeklyHours(schedule)}h/week: ${summary}`;
+}
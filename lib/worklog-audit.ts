@@ -0,0 +1,58 @@
+import { WorklogAuditAction, WorklogFieldChange } from './types';
+import { formatDisplayDate } from './date-settings';
+import { formatHours } from './hours';
+
+export const AUDIT_ACTION_LABELS: Record<WorklogAuditAction, string> = {
+  CREATE: 'Created',
+  UPDATE: 'Updated',
+  DELETE: 'Deleted',
+};
+
+export const AUDIT_ACTION_OPTIONS = (Object.keys(AUDIT_ACTION_LABELS) as WorklogAuditAction[]).map((action) => ({
+  value: action,
+  label: AUDIT_ACTION_LABELS[action],
+}));
+
+const FIELD_LABELS: Record<string, string> = {
+  worklogTypeName: 'Work type',
+  workDate: 'Date',
+  hoursWorked: 'Hours',
+  projectName: 'Project',
+  description: 'Description',
+  tags: 'Tags',
+};
+
+/**
+ * Badge color classes for an audit action
+ */
+export function getAuditActionColor(action: WorklogAuditAction): string {
+  switch (action) {
+    case 'CREATE':
+      return 'bg-green-100 text-green-800';
+    case 'DELETE':
+      return 'bg-red-100 text-red-800';
+    default:
+      return 'bg-blue-100 text-blue-800';
+  }
+}
+
+export function getFieldLabel(field: string): string {
+  return FIELD_LABELS[field] || field;
+}
+
+/**
+ * Display form of a recorded field value; values arrive as the server stored them
+ */
+export function formatFieldValue(field: string, value: string | null): string {
+  if (value === null || value === '') return '(empty)';
+  if (field === 'workDate') return formatDisplayDate(value);
+  if (field === 'hoursWorked') return `${formatHours(Number(value))}h`;
+  return value;
+}
+
+/**
+ * Changes worth showing: fields whose value actually differs
+ */
+export function getVisibleChanges(changes: WorklogFieldChange[]): WorklogFieldChange[] {
+  return changes.filter((change) => change.oldValue !== change.newValue);
+}
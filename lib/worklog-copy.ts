@@ -0,0 +1,132 @@
+import { addDays, format, isAfter, isWeekend, parseISO, startOfDay, subWeeks } from 'date-fns';
+import { worklogApi } from './api';
+import { extractErrorMessage } from './error-handler';
+import { getDateRangeForPeriod, getPreviousWorkingDay } from './date-utils';
+import { getHoliday, isHoliday } from './holidays';
+import { formatHours, sumHours } from './hours';
+import { findPeriodLock, getPeriodLockMessage } from './period-locks';
+import { findLockedSubmission, getLockedWeekMessage } from './timesheet-status';
+import { PeriodLock, TimesheetSubmission, Worklog, WorklogCreateRequest } from './types';
+
+export type CopyMode = 'week' | 'day';
+
+// What to do when a target day already has hours logged
+export type CopyConflictPolicy = 'skip' | 'add';
+
+export interface CopyRanges {
+  source: { startDate: string; endDate: string };
+  target: { startDate: string; endDate: string };
+}
+
+export interface CopyPlanItem {
+  source: Worklog;
+  payload: WorklogCreateRequest;
+  // Hours already logged on the target day before copying
+  existingHours: number;
+  skipReason: string | null;
+}
+
+/**
+ * Get the source and target ranges for a copy. "week" copies the previous week
+ * onto the current one, "day" copies the previous working day onto today.
+ */
+export function getCopyRanges(mode: CopyMode, baseDate: Date = new Date()): CopyRanges {
+  if (mode === 'week') {
+    return {
+      source: getDateRangeForPeriod('week', subWeeks(baseDate, 1)),
+      target: getDateRangeForPeriod('week', baseDate),
+    };
+  }
+
+  const source = format(getPreviousWorkingDay(baseDate), 'yyyy-MM-dd');
+  const target = format(baseDate, 'yyyy-MM-dd');
+  return {
+    source: { startDate: source, endDate: source },
+    target: { startDate: target, endDate: target },
+  };
+}
+
+function getTargetDate(mode: CopyMode, workDate: string, ranges: CopyRanges): string {
+  if (mode === 'week') {
+    return format(addDays(parseISO(workDate), 7), 'yyyy-MM-dd');
+  }
+  return ranges.target.startDate;
+}
+
+/**
+ * Build a preview of the worklogs a copy would create. Entries landing on
+ * weekends, in a closed period, in a submitted or approved week or in the
+ * future are never created; entries landing on a day that already has hours
+ * are skipped or kept depending on the conflict policy.
+ */
+export function buildCopyPlan(
+  mode: CopyMode,
+  ranges: CopyRanges,
+  sourceWorklogs: Worklog[],
+  targetWorklogs: Worklog[],
+  conflictPolicy: CopyConflictPolicy,
+  locks: PeriodLock[],
+  submissions: TimesheetSubmission[],
+  today: Date = new Date()
+): CopyPlanItem[] {
+  const hoursByDate = (workDate: string) =>
+    sumHours(targetWorklogs.filter((worklog) => worklog.workDate === workDate));
+
+  return sourceWorklogs
+    .slice()
+    .sort((a, b) => a.workDate.localeCompare(b.workDate))
+    .map((source) => {
+      const workDate = getTargetDate(mode, source.workDate, ranges);
+      const date = parseISO(workDate);
+      const existingHours = hoursByDate(workDate);
+      const lock = findPeriodLock(workDate, locks);
+      const lockedSubmission = findLockedSubmission(workDate, submissions);
+
+      let skipReason: string | null = null;
+      if (isWeekend(date)) {
+        skipReason = 'Weekend';
+      } else if (isHoliday(date)) {
+        skipReason = getHoliday(date)!.name;
+      } else if (lock) {
+        skipReason = getPeriodLockMessage(lock);
+      } else if (lockedSubmission) {
+        skipReason = getLockedWeekMessage(lockedSubmission.status);
+      } else if (isAfter(date, startOfDay(today))) {
+        skipReason = 'Future date';
+      } else if (existingHours > 0 && conflictPolicy === 'skip') {
+        skipReason = `${formatHours(existingHours)} hours already logged`;
+      }
+
+      return {
+        source,
+        payload: {
+          worklogTypeId: source.worklogTypeId,
+          workDate,
+          hoursWorked: source.hoursWorked,
+          projectName: source.projectName || '',
+          description: source.description,
+          tags: source.tags,
+        },
+        existingHours,
+        skipReason,
+      };
+    });
+}
+
+/**
+ * Create the worklogs of a copy plan, returning an error message per failed
+ * source worklog id
+ */
+export async function executeCopyPlan(items: CopyPlanItem[]): Promise<Record<number, string>> {
+  const results = await Promise.allSettled(
+    items.map((item) => worklogApi.createWorklog(item.payload))
+  );
+
+  const errors: Record<number, string> = {};
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      errors[items[index].source.id] = extractErrorMessage(result.reason);
+    }
+  });
+  return errors;
+}
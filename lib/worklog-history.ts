@@ -0,0 +1,26 @@
+import { format, subDays } from 'date-fns';
+import { worklogApi } from './api';
+import { canViewTeamData } from './auth';
+import { User, Worklog } from './types';
+
+// How far back worklogs are scanned for suggestions (project names, tags)
+export const HISTORY_DAYS = 180;
+
+/**
+ * Load the user's recent worklogs and, for team leads and directors, their
+ * team's worklogs too
+ */
+export async function loadWorklogHistory(user: User): Promise<Worklog[]> {
+  const today = new Date();
+  const endDate = format(today, 'yyyy-MM-dd');
+  const startDate = format(subDays(today, HISTORY_DAYS), 'yyyy-MM-dd');
+
+  const [myWorklogs, teamWorklogs] = await Promise.all([
+    worklogApi.getMyWorklogs(startDate, endDate),
+    canViewTeamData(user) ? worklogApi.getTeamWorklogs(startDate, endDate) : Promise.resolve([]),
+  ]);
+
+  // Team results can include the user's own entries
+  const seen = new Set(myWorklogs.map((worklog) => worklog.id));
+  return [...myWorklogs, ...teamWorklogs.filter((worklog) => !seen.has(worklog.id))];
+}